@@ -1,9 +1,16 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
+import type { Schemas } from '@qdrant/js-client-rest';
 // Removed OpenAI import: import OpenAI from 'openai';
 import { chromium } from 'playwright';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { EmbeddingService } from './embeddings.js'; // Added EmbeddingService import
-import type { QdrantCollectionInfo } from './types.js'; // Assuming types are defined here or need creation
+import { SPARSE_VECTOR_NAME } from './sparse-vectors.js';
+import { RobotsPolicy } from './robots.js';
+import type { RetryUsage } from './rate-limit.js';
+import type { CollectionSearchSettings, EmbeddingTag, QdrantCollectionInfo, SourceMetadata } from './types.js'; // Assuming types are defined here or need creation
+import { pickSourceMetadata } from './source-metadata.js';
+import { EmbeddingMigrator } from './migration.js';
+import crypto from 'crypto';
 
 // Environment variables for configuration
 const EMBEDDING_PROVIDER = (process.env.EMBEDDING_PROVIDER || 'ollama') as 'ollama' | 'openai' | 'google';
@@ -12,16 +19,52 @@ const OLLAMA_URL = process.env.OLLAMA_URL; // Optional, provider might have defa
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL; // Optional
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+// Optional vector size; passed to providers whose models support choosing one (OpenAI text-embedding-3, Gemini)
+const EMBEDDING_DIMENSIONS = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined;
 const QDRANT_URL = process.env.QDRANT_URL || 'http://127.0.0.1:6333'; // Default to local Qdrant
 const QDRANT_API_KEY = process.env.QDRANT_API_KEY; // Optional, only needed for cloud
 
 // Removed strict checks for QDRANT_URL/QDRANT_API_KEY
 
+// Collection used when a tool call does not name one
+export const DEFAULT_COLLECTION_NAME = process.env.DEFAULT_COLLECTION || 'documentation';
+const COLLECTION_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// Internal collection recording which embedding model built each collection
+export const META_COLLECTION_NAME = '_ragdocs_meta';
+// Collections are stored as ragdocs__<name>.<base-36 creation time> behind an alias with their logical
+// name, so migrate_embeddings can swap in a new copy atomically. Collection names cannot contain the dot,
+// and the prefix keeps the server from ever hiding or removing collections other applications created.
+const PHYSICAL_COLLECTION_PREFIX = 'ragdocs__';
+const PHYSICAL_COLLECTION_PATTERN = /^ragdocs__([A-Za-z0-9_-]{1,64})\.([0-9a-z]+)$/;
+const MAX_FACET_VALUES = 1000; // Distinct products or versions read per collection
+
+// Payload fields looked up or filtered on: re-indexing finds a page's chunks by URL, API reference
+// chunks (add_openapi) are filtered by method, path and operation ID, and search_documentation
+// filters on the page metadata
+const PAYLOAD_INDEXES: { field: string; schema: Schemas['PayloadFieldSchema'] }[] = [
+  { field: 'url', schema: 'keyword' },
+  { field: 'method', schema: 'keyword' },
+  { field: 'path', schema: 'keyword' },
+  { field: 'operationId', schema: 'keyword' },
+  { field: 'title', schema: { type: 'text', tokenizer: 'word', lowercase: true } },
+  { field: 'timestamp', schema: 'datetime' },
+  { field: 'tags', schema: 'keyword' },
+  { field: 'version', schema: 'keyword' },
+  { field: 'product', schema: 'keyword' },
+  { field: 'language', schema: 'keyword' },
+];
+
 export class ApiClient {
   qdrantClient: QdrantClient;
   // Removed openaiClient: openaiClient?: OpenAI;
   browser: any;
+  robots = new RobotsPolicy(); // Shared so robots.txt and crawl delays are tracked across tools
   private embeddingService: EmbeddingService; // Added embeddingService property
+  private sparseSupport = new Map<string, boolean>(); // Collection name -> has keyword vectors
+  private verifiedCollections = new Set<string>(); // Collections checked against the configured embedding model
+  private indexedFields = new Map<string, Set<string>>(); // Collection name -> payload fields known to be indexed
+  private metaCollectionReady = false;
+  migrations = new EmbeddingMigrator(this);
 
   constructor() {
     // Initialize Qdrant client (URL required, API key optional)
@@ -39,6 +82,7 @@ export class ApiClient {
             openaiApiKey: OPENAI_API_KEY,
             openaiBaseUrl: OPENAI_BASE_URL,
             geminiApiKey: GEMINI_API_KEY,
+            dimensions: EMBEDDING_DIMENSIONS,
         });
         console.error(`ApiClient initialized with embedding provider: ${EMBEDDING_PROVIDER}`);
     } catch (error) {
@@ -64,9 +108,9 @@ export class ApiClient {
   }
 
   // Replaced with delegation to EmbeddingService
-  async getEmbeddings(text: string): Promise<number[]> {
+  async getEmbeddings(text: string, usage?: RetryUsage): Promise<number[]> {
     try {
-        return await this.embeddingService.generateEmbeddings(text);
+        return await this.embeddingService.generateEmbeddings(text, usage);
     } catch (error) {
         // Log the specific embedding error
         console.error(`Error generating embeddings via ${EMBEDDING_PROVIDER}:`, error);
@@ -78,41 +122,426 @@ export class ApiClient {
     }
   }
 
-  // Updated initCollection to use dynamic vector size and handle potential mismatches
-  async initCollection(COLLECTION_NAME: string) {
-    const requiredVectorSize = this.embeddingService.getVectorSize();
-    console.error(`Required vector size for collection '${COLLECTION_NAME}': ${requiredVectorSize}`);
+  async getEmbeddingsBatch(texts: string[], usage?: RetryUsage): Promise<number[][]> {
+    try {
+        return await this.embeddingService.generateEmbeddingsBatch(texts, usage);
+    } catch (error) {
+        console.error(`Error generating batch embeddings via ${EMBEDDING_PROVIDER}:`, error);
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to generate embeddings: ${error instanceof Error ? error.message : error}`
+        );
+    }
+  }
+
+  // Vector size of the configured embedding model, measured once and cached
+  async getVectorSize(): Promise<number> {
+    try {
+        return await this.embeddingService.getVectorSize();
+    } catch (error) {
+        if (error instanceof McpError) {
+            throw error;
+        }
+        console.error(`Error detecting vector size via ${EMBEDDING_PROVIDER}:`, error);
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to detect the embedding vector size: ${error instanceof Error ? error.message : error}`
+        );
+    }
+  }
+
+  // Validates a user-supplied collection name, falling back to the default collection
+  resolveCollectionName(name?: unknown): string {
+    if (name === undefined || name === null || name === '') {
+      return DEFAULT_COLLECTION_NAME;
+    }
+    if (typeof name !== 'string' || !COLLECTION_NAME_PATTERN.test(name)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid collection name: ${name}. Use 1-64 letters, digits, '-' or '_'.`
+      );
+    }
+    if (name === META_COLLECTION_NAME) {
+      throw new McpError(ErrorCode.InvalidParams, `Collection name ${name} is reserved for internal use.`);
+    }
+    return name;
+  }
 
+  // Logical collection names: aliases plus collections that are not internal, alias targets or our own copies
+  async listCollectionNames(): Promise<string[]> {
     try {
-      // Check if collection exists
-      const collections = await this.qdrantClient.getCollections();
-      const collection = collections.collections.find(c => c.name === COLLECTION_NAME);
+      const [collections, aliases] = await Promise.all([
+        this.qdrantClient.getCollections(),
+        this.qdrantClient.getAliases(),
+      ]);
+      const aliasTargets = new Set(aliases.aliases.map(alias => alias.collection_name));
+      const names = new Set(aliases.aliases.map(alias => alias.alias_name));
+      for (const collection of collections.collections) {
+        if (collection.name !== META_COLLECTION_NAME &&
+            !aliasTargets.has(collection.name) &&
+            !PHYSICAL_COLLECTION_PATTERN.test(collection.name)) {
+          names.add(collection.name);
+        }
+      }
+      return Array.from(names).sort();
+    } catch (error) {
+      this.handleQdrantError(error, 'list');
+      return [];
+    }
+  }
+
+  // Physical collection behind a logical name (the name itself for collections created before aliases were used)
+  async resolvePhysicalName(name: string): Promise<string> {
+    const aliases = await this.qdrantClient.getAliases();
+    return aliases.aliases.find(alias => alias.alias_name === name)?.collection_name ?? name;
+  }
+
+  async collectionExists(name: string): Promise<boolean> {
+    return (await this.listCollectionNames()).includes(name);
+  }
+
+  // The default collection is created on demand; any other must already exist
+  async requireCollection(name: string) {
+    if (await this.collectionExists(name)) {
+      return;
+    }
+    if (name === DEFAULT_COLLECTION_NAME) {
+      await this.initCollection(name);
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${name}`);
+    }
+  }
+
+  async deleteCollection(name: string) {
+    this.assertWritable(name);
+    try {
+      // The tag goes first: a collection left without name and tag is removed by recoverCollections
+      await this.deleteEmbeddingTag(name);
+      const physical = await this.resolvePhysicalName(name);
+      if (physical !== name) {
+        await this.qdrantClient.updateCollectionAliases({ actions: [{ delete_alias: { alias_name: name } }] });
+      }
+      await this.qdrantClient.deleteCollection(physical);
+      this.forgetCollection(name);
+      console.error(`Collection '${name}' deleted.`);
+    } catch (error) {
+      this.handleQdrantError(error, 'delete');
+    }
+  }
+
+  // Collections created before hybrid search was added have no sparse vector config
+  async hasSparseVectors(collectionName: string): Promise<boolean> {
+    const cached = this.sparseSupport.get(collectionName);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const collectionInfo = await this.qdrantClient.getCollection(collectionName) as QdrantCollectionInfo;
+    const supported = Boolean(collectionInfo?.config?.params?.sparse_vectors?.[SPARSE_VECTOR_NAME]);
+    if (!supported) {
+      console.warn(`Collection '${collectionName}' has no '${SPARSE_VECTOR_NAME}' sparse vectors; keyword search is unavailable for it.`);
+    }
+    this.sparseSupport.set(collectionName, supported);
+    return supported;
+  }
+
+  // Labels stored on a source's chunks (every chunk carries the same ones), or undefined if the URL has no chunks
+  async getSourceMetadata(collectionName: string, url: string): Promise<SourceMetadata | undefined> {
+    const result = await this.qdrantClient.scroll(collectionName, {
+      filter: { must: [{ key: 'url', match: { value: url } }] },
+      with_payload: ['tags', 'version', 'product', 'metadata'],
+      with_vector: false,
+      limit: 1,
+    });
+    return result.points.length > 0 ? pickSourceMetadata(result.points[0].payload) : undefined;
+  }
+
+  /**
+   * Versions indexed for each product, keyed by product name, with chunks
+   * that have a version but no product under `undefined`. Uses facet counts
+   * over the payload indexes, which need Qdrant 1.12 or later.
+   */
+  async getVersionsByProduct(collectionName: string): Promise<Map<string | undefined, string[]>> {
+    const facet = async (key: string, filter: Schemas['Filter']) => {
+      const result = await this.qdrantClient.facet(collectionName, { key, filter, limit: MAX_FACET_VALUES });
+      return result.hits.map(hit => String(hit.value));
+    };
+    const versioned: Schemas['Condition'] = { must_not: [{ is_empty: { key: 'version' } }] };
+    const groups = new Map<string | undefined, string[]>();
+    for (const product of await facet('product', { must: [versioned] })) {
+      groups.set(product, await facet('version', { must: [{ key: 'product', match: { value: product } }] }));
+    }
+    const unlabelled = await facet('version', { must: [{ is_empty: { key: 'product' } }] });
+    if (unlabelled.length > 0) {
+      groups.set(undefined, unlabelled);
+    }
+    return groups;
+  }
+
+  /**
+   * Adds payload indexes that collections created by earlier versions lack,
+   * plus keyword indexes for the given `metadata.<key>` fields. Indexes only
+   * speed up filtering, so a server that rejects one (e.g. `datetime` before
+   * Qdrant 1.8) is not fatal.
+   */
+  async ensurePayloadIndexes(collectionName: string, metadataKeys: string[] = []) {
+    let indexed = this.indexedFields.get(collectionName);
+    if (!indexed) {
+      const info = await this.qdrantClient.getCollection(collectionName);
+      indexed = new Set(Object.keys(info.payload_schema || {}));
+      this.indexedFields.set(collectionName, indexed);
+    }
+    const wanted = [
+      ...PAYLOAD_INDEXES,
+      ...metadataKeys.map(key => ({ field: `metadata.${key}`, schema: 'keyword' as const })),
+    ];
+    for (const { field, schema } of wanted) {
+      if (indexed.has(field)) {
+        continue;
+      }
+      indexed.add(field); // Not retried after a failure
+      try {
+        await this.qdrantClient.createPayloadIndex(collectionName, {
+          field_name: field,
+          field_schema: schema,
+          wait: true,
+        });
+      } catch (error) {
+        console.warn(`Could not create the '${field}' payload index on '${collectionName}':`, error);
+      }
+    }
+  }
+
+  /**
+   * Creates the collection if it does not exist yet, otherwise checks that it
+   * was built with the configured embedding model. A mismatch is reported as
+   * an error; the collection is never deleted here (see migrate_embeddings).
+   */
+  async initCollection(COLLECTION_NAME: string) {
+    this.assertWritable(COLLECTION_NAME);
+    if (this.verifiedCollections.has(COLLECTION_NAME)) {
+      return;
+    }
+    const requiredVectorSize = await this.getVectorSize();
 
-      if (!collection) {
+    try {
+      if (!(await this.collectionExists(COLLECTION_NAME))) {
         console.error(`Collection '${COLLECTION_NAME}' not found. Creating with vector size ${requiredVectorSize}...`);
-        await this.createQdrantCollection(COLLECTION_NAME, requiredVectorSize);
+        const physical = await this.createPhysicalCollection(COLLECTION_NAME, requiredVectorSize);
+        await this.qdrantClient.updateCollectionAliases({
+          actions: [{ create_alias: { collection_name: physical, alias_name: COLLECTION_NAME } }],
+        });
+        await this.setEmbeddingTag(COLLECTION_NAME, requiredVectorSize);
+        this.verifiedCollections.add(COLLECTION_NAME);
         console.error(`Collection '${COLLECTION_NAME}' created successfully.`);
         return;
       }
+      await this.checkEmbeddingModel(COLLECTION_NAME);
+      await this.ensurePayloadIndexes(COLLECTION_NAME);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      this.handleQdrantError(error, 'initialize/verify');
+    }
+  }
+
+  // Throws if the collection's vectors come from a different model than the configured one
+  async checkEmbeddingModel(name: string) {
+    if (this.verifiedCollections.has(name)) {
+      return;
+    }
+    const requiredVectorSize = await this.getVectorSize();
+    const current = { ...this.embeddingService.describe(), dimensions: requiredVectorSize };
+    const tag = await this.getEmbeddingTag(name);
 
-      // Collection exists, check vector size
-      console.error(`Collection '${COLLECTION_NAME}' found. Verifying vector size...`);
-      const collectionInfo = await this.qdrantClient.getCollection(COLLECTION_NAME) as QdrantCollectionInfo;
+    if (tag) {
+      if (tag.provider !== current.provider || tag.model !== current.model || tag.dimensions !== current.dimensions) {
+        throw this.modelMismatchError(name, `${tag.provider}/${tag.model} (${tag.dimensions} dimensions)`, current);
+      }
+    } else {
+      // Collections from before tagging: the vector size is the only evidence of the model that built them
+      const collectionInfo = await this.qdrantClient.getCollection(name) as QdrantCollectionInfo;
       const currentVectorSize = collectionInfo?.config?.params?.vectors?.size;
+      if (currentVectorSize && currentVectorSize !== requiredVectorSize) {
+        throw this.modelMismatchError(name, `an unknown model (${currentVectorSize} dimensions)`, current);
+      }
+      console.error(`Tagging existing collection '${name}' with the configured model ${current.provider}/${current.model}.`);
+      await this.setEmbeddingTag(name, requiredVectorSize);
+    }
+    this.verifiedCollections.add(name);
+  }
 
-      if (!currentVectorSize) {
-          console.error(`Could not determine current vector size for collection '${COLLECTION_NAME}'. Recreating collection...`);
-          await this.recreateQdrantCollection(COLLECTION_NAME, requiredVectorSize);
-      } else if (currentVectorSize !== requiredVectorSize) {
-          console.error(`Vector size mismatch for collection '${COLLECTION_NAME}': current=${currentVectorSize}, required=${requiredVectorSize}. Recreating collection...`);
-          await this.recreateQdrantCollection(COLLECTION_NAME, requiredVectorSize);
-      } else {
-          console.error(`Collection '${COLLECTION_NAME}' vector size (${currentVectorSize}) matches required size (${requiredVectorSize}).`);
+  // Writes would be lost when a running migration switches the collection over
+  assertWritable(name: string) {
+    if (this.migrations.isRunning(name)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Collection '${name}' is being migrated to a new embedding model. Try again once migrate_embeddings has finished.`
+      );
+    }
+  }
+
+  private modelMismatchError(name: string, builtWith: string, current: { provider: string; model: string; dimensions: number }): McpError {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `Collection '${name}' was built with ${builtWith}, but the server is configured for ` +
+        `${current.provider}/${current.model} (${current.dimensions} dimensions). ` +
+        `Run migrate_embeddings on '${name}' to re-embed it with the configured model, or restore the previous embedding settings.`
+    );
+  }
+
+  async getEmbeddingTag(name: string): Promise<EmbeddingTag | null> {
+    await this.ensureMetaCollection();
+    const points = await this.qdrantClient.retrieve(META_COLLECTION_NAME, {
+      ids: [this.metaPointId(name)],
+      with_payload: true,
+    });
+    return (points[0]?.payload as EmbeddingTag | undefined) ?? null;
+  }
+
+  // Records that the collection now holds vectors from the configured model, keeping its search settings
+  async setEmbeddingTag(name: string, dimensions: number) {
+    const previous = await this.getEmbeddingTag(name);
+    const tag: EmbeddingTag = {
+      collection: name,
+      ...this.embeddingService.describe(),
+      dimensions,
+      updatedAt: new Date().toISOString(),
+      ...(previous?.searchSettings ? { searchSettings: previous.searchSettings } : {}),
+    };
+    await this.qdrantClient.upsert(META_COLLECTION_NAME, {
+      wait: true,
+      points: [{ id: this.metaPointId(name), vector: [1], payload: tag as unknown as Record<string, unknown> }],
+    });
+  }
+
+  async getSearchSettings(name: string): Promise<CollectionSearchSettings> {
+    return (await this.getEmbeddingTag(name))?.searchSettings ?? {};
+  }
+
+  async setSearchSettings(name: string, settings: CollectionSearchSettings) {
+    // Tagging creates the collection's record in the meta collection if it has none yet
+    await this.checkEmbeddingModel(name);
+    await this.qdrantClient.setPayload(META_COLLECTION_NAME, {
+      points: [this.metaPointId(name)],
+      payload: { searchSettings: settings },
+      wait: true,
+    });
+  }
+
+  private async deleteEmbeddingTag(name: string) {
+    await this.ensureMetaCollection();
+    await this.qdrantClient.delete(META_COLLECTION_NAME, { points: [this.metaPointId(name)], wait: true });
+  }
+
+  // Tags are payload-only; the one-dimensional vector exists because Qdrant points need one
+  private async ensureMetaCollection() {
+    if (this.metaCollectionReady) {
+      return;
+    }
+    const { exists } = await this.qdrantClient.collectionExists(META_COLLECTION_NAME);
+    if (!exists) {
+      try {
+        await this.qdrantClient.createCollection(META_COLLECTION_NAME, { vectors: { size: 1, distance: 'Dot' } });
+      } catch (error) {
+        this.handleQdrantError(error, 'create');
       }
+    }
+    this.metaCollectionReady = true;
+  }
 
-    } catch (error) {
-      this.handleQdrantError(error, 'initialize/verify');
+  private metaPointId(name: string): string {
+    const hex = crypto.createHash('sha256').update(name).digest('hex');
+    return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20, 32)}`;
+  }
+
+  // Creates a physical collection for a logical name, either new or the copy a migration re-embeds into
+  async createPhysicalCollection(name: string, vectorSize: number): Promise<string> {
+    const physical = `${PHYSICAL_COLLECTION_PREFIX}${name}.${Date.now().toString(36)}`;
+    await this.createQdrantCollection(physical, vectorSize);
+    return physical;
+  }
+
+  /**
+   * Points the logical name at a freshly built collection and drops the old
+   * one, in a single atomic alias update. A collection created before aliases
+   * were used still lives under its logical name, so it has to be deleted
+   * before the alias can take the name; if the server stops in between,
+   * recoverCollections restores the name at the next start.
+   */
+  async switchCollection(name: string, target: string) {
+    const previous = await this.resolvePhysicalName(name);
+    if (previous === name) {
+      await this.qdrantClient.deleteCollection(name);
+      await this.qdrantClient.updateCollectionAliases({
+        actions: [{ create_alias: { collection_name: target, alias_name: name } }],
+      });
+    } else {
+      await this.qdrantClient.updateCollectionAliases({
+        actions: [
+          { delete_alias: { alias_name: name } },
+          { create_alias: { collection_name: target, alias_name: name } },
+        ],
+      });
+      await this.qdrantClient.deleteCollection(previous);
     }
+    this.forgetCollection(name);
+  }
+
+  /**
+   * Cleans up after a server that stopped in the middle of changing a
+   * collection. Only collections named with PHYSICAL_COLLECTION_PREFIX, which
+   * this server created, are considered. One no alias points to is either the
+   * partial copy of an interrupted migration, or a half-created or
+   * half-deleted collection, and is removed. The exception is a tagged
+   * collection whose name has disappeared: that is a complete migration copy
+   * whose old collection was already deleted, so the name is given back to it.
+   */
+  async recoverCollections() {
+    const [collections, aliases] = await Promise.all([
+      this.qdrantClient.getCollections(),
+      this.qdrantClient.getAliases(),
+    ]);
+    const aliasTargets = new Set(aliases.aliases.map(alias => alias.collection_name));
+    const names = new Set([
+      ...aliases.aliases.map(alias => alias.alias_name),
+      ...collections.collections.map(collection => collection.name),
+    ]);
+    const processStart = Date.now() - process.uptime() * 1000; // Collections this process is creating are left alone
+    const orphans = collections.collections
+      .map(collection => ({ physical: collection.name, match: PHYSICAL_COLLECTION_PATTERN.exec(collection.name) }))
+      .filter(({ physical, match }) => match && !aliasTargets.has(physical))
+      .map(({ physical, match }) => ({ physical, name: match![1], createdAt: parseInt(match![2], 36) }))
+      .filter(({ createdAt }) => createdAt < processStart)
+      .sort((a, b) => b.createdAt - a.createdAt); // The newest copy of a name wins
+
+    for (const { physical, name } of orphans) {
+      if (this.migrations.isRunning(name)) {
+        continue;
+      }
+      if (!names.has(name) && (await this.getEmbeddingTag(name))) {
+        await this.qdrantClient.updateCollectionAliases({
+          actions: [{ create_alias: { collection_name: physical, alias_name: name } }],
+        });
+        names.add(name);
+        console.error(`Restored collection '${name}' from '${physical}', left behind by an interrupted migration.`);
+      } else {
+        await this.qdrantClient.deleteCollection(physical);
+        console.error(`Removed '${physical}', left behind by an interrupted collection change.`);
+      }
+    }
+  }
+
+  // Drops cached facts about a collection after it is deleted or replaced
+  private forgetCollection(name: string) {
+    this.sparseSupport.delete(name);
+    this.verifiedCollections.delete(name);
+    this.indexedFields.delete(name);
+  }
+
+  describeEmbeddingModel(): string {
+    const { provider, model } = this.embeddingService.describe();
+    return `${provider}/${model}`;
   }
 
   // Helper to create collection
@@ -123,30 +552,23 @@ export class ApiClient {
                   size: vectorSize,
                   distance: 'Cosine', // Or make configurable? Cosine is common.
               },
+              // Keyword (BM25) side of hybrid search; Qdrant computes the IDF weights
+              sparse_vectors: {
+                  [SPARSE_VECTOR_NAME]: { modifier: 'idf' },
+              },
               // Add optimized settings for cloud deployment if QDRANT_API_KEY is set?
               ...(QDRANT_API_KEY && {
                   optimizers_config: { default_segment_number: 2 },
                   replication_factor: 2, // Sensible defaults for cloud
               })
           });
+          this.indexedFields.set(name, new Set());
+          await this.ensurePayloadIndexes(name);
       } catch (error) {
           this.handleQdrantError(error, 'create');
       }
   }
 
-  // Helper to recreate collection
-  private async recreateQdrantCollection(name: string, vectorSize: number) {
-      try {
-          console.warn(`Attempting to delete and recreate collection '${name}'...`);
-          await this.qdrantClient.deleteCollection(name);
-          console.error(`Collection '${name}' deleted.`);
-          await this.createQdrantCollection(name, vectorSize);
-          console.error(`Collection '${name}' recreated successfully with vector size ${vectorSize}.`);
-      } catch (error) {
-          this.handleQdrantError(error, 'recreate');
-      }
-  }
-
   // Centralized Qdrant error handling
   private handleQdrantError(error: unknown, context: string) {
       console.error(`Qdrant error during collection ${context}:`, error);
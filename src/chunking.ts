@@ -0,0 +1,600 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+// Chunking configuration (characters)
+const CHUNK_SIZE = parseInt(process.env.CHUNK_SIZE || '1000', 10);
+const CHUNK_OVERLAP = parseInt(process.env.CHUNK_OVERLAP || '200', 10);
+
+export interface ChunkOptions {
+  maxChunkSize: number;
+  overlap: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChunkSize: CHUNK_SIZE,
+  overlap: CHUNK_OVERLAP,
+};
+
+/**
+ * A structural unit of a document. Code and table blocks are atomic: the
+ * chunker never splits them, even when they exceed the chunk size.
+ */
+export interface ContentBlock {
+  type: 'heading' | 'text' | 'code' | 'table';
+  text: string;
+  level?: number; // Heading level (1-6), only set for headings
+  line?: number; // 1-based line where the block starts in the source, when known
+}
+
+export interface TextChunk {
+  text: string;
+  headingPath: string[];
+  line?: number; // Source line of the chunk's first block, when known
+}
+
+export const HEADING_PATH_SEPARATOR = ' > ';
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'button', 'iframe']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// --- HTML ---
+
+function renderTable($: CheerioAPI, table: Cheerio<any>): string {
+  const rows: string[] = [];
+  table.find('tr').each((_, row) => {
+    const cells = $(row)
+      .children('th, td')
+      .toArray()
+      .map(cell => normalizeWhitespace($(cell).text()).replace(/\|/g, '\\|'));
+    if (cells.length > 0) {
+      rows.push(`| ${cells.join(' | ')} |`);
+    }
+  });
+  return rows.join('\n');
+}
+
+/**
+ * Walks the DOM below `root` and flattens it into headings, prose, code and
+ * table blocks, in document order.
+ */
+export function extractHtmlBlocks($: CheerioAPI, root: Cheerio<any>): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  let inlineBuffer: string[] = [];
+
+  const flushInline = () => {
+    const text = normalizeWhitespace(inlineBuffer.join(' '));
+    if (text) {
+      blocks.push({ type: 'text', text });
+    }
+    inlineBuffer = [];
+  };
+
+  const hasBlockDescendant = (element: Cheerio<any>) =>
+    element.find(Array.from(BLOCK_TAGS).join(',')).length > 0;
+
+  const walk = (element: Cheerio<any>) => {
+    element.contents().each((_, node: any) => {
+      if (node.type === 'text') {
+        inlineBuffer.push(node.data || '');
+        return;
+      }
+      if (node.type !== 'tag') return;
+
+      const tag = String(node.tagName).toLowerCase();
+      const child = $(node);
+      if (SKIPPED_TAGS.has(tag)) return;
+
+      if (!BLOCK_TAGS.has(tag)) {
+        // Inline element (a, code, span, em, ...): keep it in the running paragraph
+        if (hasBlockDescendant(child)) {
+          walk(child);
+        } else {
+          inlineBuffer.push(child.text());
+        }
+        return;
+      }
+
+      flushInline();
+
+      if (HEADING_TAGS.has(tag)) {
+        const text = normalizeWhitespace(child.text());
+        if (text) {
+          blocks.push({ type: 'heading', text, level: parseInt(tag.substring(1), 10) });
+        }
+      } else if (tag === 'pre') {
+        const text = child.text().replace(/^\n+|\s+$/g, '');
+        if (text) {
+          blocks.push({ type: 'code', text });
+        }
+      } else if (tag === 'table') {
+        const text = renderTable($, child);
+        if (text) {
+          blocks.push({ type: 'table', text });
+        }
+      } else if (hasBlockDescendant(child)) {
+        walk(child);
+        flushInline();
+      } else {
+        const text = normalizeWhitespace(child.text());
+        if (text) {
+          blocks.push({ type: 'text', text: tag === 'li' ? `- ${text}` : text });
+        }
+      }
+    });
+  };
+
+  walk(root);
+  flushInline();
+  return blocks;
+}
+
+// --- Markdown ---
+
+/**
+ * Line-based Markdown reader. Understands ATX and setext headings, fenced code
+ * blocks and pipe tables; everything else is grouped into paragraphs.
+ */
+export function extractMarkdownBlocks(markdown: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  let paragraphLine = 0;
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'text', text, line: paragraphLine });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const start = i + 1;
+      const codeLines = [line];
+      i++;
+      while (i < lines.length) {
+        codeLines.push(lines[i]);
+        if (lines[i].trim().startsWith(marker)) break;
+        i++;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n'), line: start });
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: atx[2], level: atx[1].length, line: i + 1 });
+      continue;
+    }
+
+    const next = lines[i + 1];
+    if (paragraph.length === 0 && line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next)) {
+      blocks.push({ type: 'heading', text: line.trim(), level: next.trim().startsWith('=') ? 1 : 2, line: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (/^\s*\|/.test(line)) {
+      flushParagraph();
+      const start = i + 1;
+      const tableLines = [line];
+      while (i + 1 < lines.length && /^\s*\|/.test(lines[i + 1])) {
+        tableLines.push(lines[++i]);
+      }
+      blocks.push({ type: 'table', text: tableLines.join('\n'), line: start });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    if (paragraph.length === 0) {
+      paragraphLine = i + 1;
+    }
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// --- reStructuredText ---
+
+// A line made of one repeated punctuation character, used to underline (and overline) section titles
+const RST_ADORNMENT = /^([!-/:-@[-`{-~])\1+\s*$/;
+const RST_GRID_TABLE_BORDER = /^\s*\+[-=+]+\+\s*$/;
+const RST_SIMPLE_TABLE_BORDER = /^\s*=+(\s+=+)+\s*$/;
+const RST_CODE_DIRECTIVE = /^(\s*)\.\.\s+(?:code-block|code|sourcecode)::/;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Line-based reStructuredText reader. Section levels follow the order in which
+ * adornment styles first appear, as in docutils. Literal blocks (`::`) and
+ * code directives become code blocks, grid and simple tables become tables,
+ * and comments are dropped; other directives keep their content as prose.
+ */
+export function extractRstBlocks(rst: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const lines = rst.replace(/\r\n?/g, '\n').split('\n');
+  const styles: string[] = []; // Adornment styles in order of first use
+  let paragraph: string[] = [];
+
+  const headingLevel = (style: string) => {
+    if (!styles.includes(style)) {
+      styles.push(style);
+    }
+    return Math.min(styles.indexOf(style) + 1, 6);
+  };
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'text', text });
+    }
+    paragraph = [];
+  };
+
+  // Reads the block indented deeper than `indent` starting at `start`; returns it dedented with the index after it
+  const readIndented = (start: number, indent: number) => {
+    let end = start;
+    while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]) > indent)) end++;
+    while (end > start && !lines[end - 1].trim()) end--;
+    const body = lines.slice(start, end);
+    const minIndent = Math.min(...body.filter(line => line.trim()).map(indentOf));
+    return { text: body.map(line => line.slice(minIndent)).join('\n').trim(), end };
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1];
+
+    if (RST_ADORNMENT.test(line) && next?.trim() && lines[i + 2]?.trim() === line.trim()) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: next.trim(), level: headingLevel(`over${line.trim()[0]}`) });
+      i += 2;
+      continue;
+    }
+    if (paragraph.length === 0 && line.trim() && indentOf(line) === 0 && !RST_ADORNMENT.test(line) &&
+        next !== undefined && RST_ADORNMENT.test(next) && next.trim().length >= line.trim().length) {
+      blocks.push({ type: 'heading', text: line.trim(), level: headingLevel(next.trim()[0]) });
+      i++;
+      continue;
+    }
+    if (RST_ADORNMENT.test(line)) {
+      flushParagraph(); // Transition
+      continue;
+    }
+
+    const codeDirective = line.match(RST_CODE_DIRECTIVE);
+    if (codeDirective) {
+      flushParagraph();
+      let start = i + 1;
+      while (start < lines.length && /^\s+:[\w-]+:/.test(lines[start])) start++; // Directive options
+      const { text, end } = readIndented(start, codeDirective[1].length);
+      if (text) {
+        blocks.push({ type: 'code', text });
+      }
+      i = end - 1;
+      continue;
+    }
+
+    const explicitMarkup = line.match(/^(\s*)\.\.(\s|$)/);
+    if (explicitMarkup) {
+      flushParagraph();
+      if (line.includes('::')) {
+        // Other directives (note, warning, ...): drop the directive and its options, keep the content
+        while (i + 1 < lines.length && /^\s+:[\w-]+:/.test(lines[i + 1])) i++;
+      } else {
+        // Comments, link targets and footnotes
+        i = readIndented(i + 1, explicitMarkup[1].length).end - 1;
+      }
+      continue;
+    }
+
+    if (RST_GRID_TABLE_BORDER.test(line)) {
+      flushParagraph();
+      const tableLines = [line];
+      while (i + 1 < lines.length && /^\s*[+|]/.test(lines[i + 1])) {
+        tableLines.push(lines[++i]);
+      }
+      blocks.push({ type: 'table', text: tableLines.join('\n') });
+      continue;
+    }
+    if (RST_SIMPLE_TABLE_BORDER.test(line)) {
+      flushParagraph();
+      const tableLines = [line];
+      let borders = 1;
+      while (i + 1 < lines.length) {
+        const row = lines[++i];
+        tableLines.push(row);
+        if (RST_SIMPLE_TABLE_BORDER.test(row) && ++borders >= 2 && !lines[i + 1]?.trim()) break;
+      }
+      blocks.push({ type: 'table', text: tableLines.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    // A paragraph ending in `::` introduces an indented literal block
+    if (/::\s*$/.test(line)) {
+      const indent = indentOf(line);
+      paragraph.push(line.trim().replace(/\s*::$/, line.trim() === '::' ? '' : ':'));
+      flushParagraph();
+      let start = i + 1;
+      while (start < lines.length && !lines[start].trim()) start++;
+      if (start < lines.length && indentOf(lines[start]) > indent) {
+        const { text, end } = readIndented(start, indent);
+        blocks.push({ type: 'code', text });
+        i = end - 1;
+      }
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// --- AsciiDoc ---
+
+const ASCIIDOC_CODE_DELIMITERS = new Set(['-', '.']); // Listing and literal blocks
+const ASCIIDOC_SKIPPED_DELIMITERS = new Set(['/', '+']); // Comment and passthrough blocks
+
+/**
+ * Line-based AsciiDoc reader. Understands `=` section titles, listing and
+ * literal blocks, `|===` tables and block titles. Attribute entries, block
+ * attribute lines and comments are dropped; other delimited blocks (examples,
+ * sidebars, quotes) keep their content as prose.
+ */
+export function extractAsciidocBlocks(asciidoc: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const lines = asciidoc.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      blocks.push({ type: 'text', text });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const delimiter = line.match(/^([-.\/+=*_])\1{3,}\s*$/);
+    if (delimiter && (ASCIIDOC_CODE_DELIMITERS.has(delimiter[1]) || ASCIIDOC_SKIPPED_DELIMITERS.has(delimiter[1]))) {
+      flushParagraph();
+      const marker = line.trim();
+      const bodyLines: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim() !== marker) {
+        bodyLines.push(lines[++i]);
+      }
+      i++; // Closing delimiter
+      const text = bodyLines.join('\n').replace(/^\n+|\s+$/g, '');
+      if (text && ASCIIDOC_CODE_DELIMITERS.has(delimiter[1])) {
+        blocks.push({ type: 'code', text });
+      }
+      continue;
+    }
+    if (delimiter) {
+      flushParagraph(); // Example, sidebar and quote blocks: keep the content
+      continue;
+    }
+
+    if (/^\|={3,}\s*$/.test(line)) {
+      flushParagraph();
+      const tableLines = [line];
+      while (i + 1 < lines.length) {
+        tableLines.push(lines[++i]);
+        if (/^\|={3,}\s*$/.test(lines[i])) break;
+      }
+      blocks.push({ type: 'table', text: tableLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(={1,6})\s+(.+?)\s*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[2], level: heading[1].length });
+      continue;
+    }
+
+    // Attribute entries, comments, and block attribute or anchor lines
+    if (/^:[\w-]+!?:/.test(line) || /^\/\//.test(line) || /^\[.*\]\s*$/.test(line)) {
+      flushParagraph();
+      continue;
+    }
+
+    const blockTitle = line.match(/^\.([^\s.].*)$/);
+    if (blockTitle) {
+      flushParagraph();
+      blocks.push({ type: 'text', text: blockTitle[1].trim() });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// --- Plain text ---
+
+export function extractPlainTextBlocks(text: string): ContentBlock[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => normalizeWhitespace(paragraph))
+    .filter(paragraph => paragraph.length > 0)
+    .map(paragraph => ({ type: 'text' as const, text: paragraph }));
+}
+
+// --- Chunking ---
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).filter(Boolean);
+}
+
+// Splits prose that is larger than the chunk size at sentence, then word, boundaries
+function splitProse(text: string, maxChunkSize: number): string[] {
+  if (text.length <= maxChunkSize) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of splitSentences(text)) {
+    const parts = sentence.length > maxChunkSize ? sentence.split(/\s+/) : [sentence];
+    for (const part of parts) {
+      if (current && current.length + part.length + 1 > maxChunkSize) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Takes whole trailing sentences of a prose block, up to `overlap` characters
+function overlapTail(text: string, overlap: number): string {
+  if (overlap <= 0) return '';
+  const sentences = splitSentences(text);
+  let tail = '';
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${sentences[i]} ${tail}` : sentences[i];
+    if (candidate.length > overlap) break;
+    tail = candidate;
+  }
+  return tail;
+}
+
+/**
+ * Groups blocks into chunks of at most `maxChunkSize` characters. Chunks never
+ * cross a heading boundary and never split code or table blocks. Neighbouring
+ * chunks in the same section share up to `overlap` characters of prose.
+ */
+export function chunkBlocks(blocks: ContentBlock[], options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+  let parts: ContentBlock[] = [];
+  let size = 0;
+  let hasNewContent = false; // False while `parts` only holds carried-over overlap
+
+  const headingPath = () => headingStack.map(h => h.text);
+
+  const flush = (carryOverlap: boolean) => {
+    if (!hasNewContent) {
+      parts = [];
+      size = 0;
+      return;
+    }
+    const line = parts.find(part => part.line !== undefined)?.line;
+    chunks.push({ text: parts.map(p => p.text).join('\n\n'), headingPath: headingPath(), ...(line !== undefined ? { line } : {}) });
+
+    const last = parts[parts.length - 1];
+    const tail = carryOverlap && last.type === 'text' ? overlapTail(last.text, options.overlap) : '';
+    parts = tail ? [{ type: 'text', text: tail, line: last.line }] : [];
+    size = tail.length;
+    hasNewContent = false;
+  };
+
+  const append = (block: ContentBlock) => {
+    if (size > 0 && size + block.text.length + 2 > options.maxChunkSize) {
+      flush(true);
+      // Drop the overlap if it would push an atomic block over the limit on its own
+      if (size > 0 && size + block.text.length + 2 > options.maxChunkSize) {
+        parts = [];
+        size = 0;
+      }
+    }
+    parts.push(block);
+    size += block.text.length + (parts.length > 1 ? 2 : 0);
+    hasNewContent = true;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      flush(false);
+      const level = block.level ?? 1;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: block.text });
+      continue;
+    }
+
+    if (block.type === 'text') {
+      for (const piece of splitProse(block.text, options.maxChunkSize)) {
+        append({ type: 'text', text: piece, line: block.line });
+      }
+    } else {
+      append(block);
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
+
+/**
+ * Rebuilds readable text from a document's chunks, in order: headings are
+ * written out where the heading path changes, and the prose that a chunk
+ * repeats from its predecessor is dropped.
+ */
+export function joinChunks(chunks: { text: string; headingPath?: string }[]): string {
+  const sections: string[] = [];
+  let previous: { text: string; headings: string[] } | undefined;
+
+  for (const chunk of chunks) {
+    const headings = chunk.headingPath ? chunk.headingPath.split(HEADING_PATH_SEPARATOR) : [];
+    let text = chunk.text;
+    const sameSection = previous !== undefined && previous.headings.join(HEADING_PATH_SEPARATOR) === headings.join(HEADING_PATH_SEPARATOR);
+    if (sameSection) {
+      const separator = text.indexOf('\n\n');
+      if (separator > 0 && previous!.text.endsWith(text.slice(0, separator))) {
+        text = text.slice(separator + 2);
+      }
+    } else {
+      // Headings shared with the previous chunk were already written
+      let shared = 0;
+      while (previous && shared < headings.length && previous.headings[shared] === headings[shared]) {
+        shared++;
+      }
+      for (let level = shared; level < headings.length; level++) {
+        sections.push(`${'#'.repeat(Math.min(level + 1, 6))} ${headings[level]}`);
+      }
+    }
+    sections.push(text);
+    previous = { text: chunk.text, headings };
+  }
+  return sections.join('\n\n');
+}
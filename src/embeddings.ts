@@ -2,15 +2,86 @@ import ollama from 'ollama';
 import OpenAI from 'openai';
 import { GoogleGenAI } from '@google/genai'; // Added - Using named import as per docs
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { RateLimiter, RetryUsage } from './rate-limit.js';
 
+// Request pacing and retries shared by every provider
+const EMBEDDING_MAX_CONCURRENCY = parseInt(process.env.EMBEDDING_MAX_CONCURRENCY || '4', 10);
+const EMBEDDING_REQUESTS_PER_MINUTE = parseInt(process.env.EMBEDDING_REQUESTS_PER_MINUTE || '0', 10); // 0 = unlimited
+const EMBEDDING_MAX_RETRIES = parseInt(process.env.EMBEDDING_MAX_RETRIES || '5', 10);
+const EMBEDDING_RETRY_BASE_MS = parseInt(process.env.EMBEDDING_RETRY_BASE_MS || '1000', 10);
+const EMBEDDING_RETRY_MAX_MS = parseInt(process.env.EMBEDDING_RETRY_MAX_MS || '60000', 10);
+
+// Embedded once to measure the model's vector size
+const DIMENSION_PROBE_TEXT = 'Vector size probe';
+
+/**
+ * Providers make exactly one API request per call and throw the client
+ * library's errors unchanged, so EmbeddingService can tell rate limits and
+ * transient failures apart from permanent ones.
+ */
 export interface EmbeddingProvider {
+  readonly name: string; // Matches the EMBEDDING_PROVIDER value
+  readonly model: string;
+  readonly batchLimits: BatchLimits;
   generateEmbeddings(text: string): Promise<number[]>;
-  getVectorSize(): number;
+  // Embeds texts that fit within batchLimits in one request; results are in input order
+  generateEmbeddingsBatch(texts: string[]): Promise<number[][]>;
+  // True if the model's output size can be chosen (EMBEDDING_DIMENSIONS is passed to the API)
+  readonly supportsDimensions: boolean;
+}
+
+// Per-request limits of a provider's batch endpoint
+export interface BatchLimits {
+  maxInputs: number;
+  maxTokens: number; // Estimated with estimateTokens, so keep some headroom below the real limit
+}
+
+// Rough upper estimate (~3 characters per token) that avoids depending on each provider's tokenizer
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+/**
+ * Groups texts into consecutive batches that stay within the provider's input
+ * count and token limits. A single text over the token limit gets a batch of
+ * its own and is left to the provider to truncate or reject.
+ */
+function splitIntoBatches(texts: string[], limits: BatchLimits): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const text of texts) {
+    const textTokens = estimateTokens(text);
+    if (current.length > 0 && (current.length >= limits.maxInputs || tokens + textTokens > limits.maxTokens)) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(text);
+    tokens += textTokens;
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+function checkBatchResult(texts: string[], embeddings: number[][]): number[][] {
+  if (embeddings.length !== texts.length) {
+    throw new Error(`Expected ${texts.length} embeddings but received ${embeddings.length}`);
+  }
+  return embeddings;
 }
 
 export class OllamaProvider implements EmbeddingProvider {
+  // Ollama has no request limit, but smaller batches keep a local server responsive
+  readonly batchLimits: BatchLimits = { maxInputs: 64, maxTokens: 64000 };
+  readonly supportsDimensions = false;
+  readonly name = 'ollama';
+
   // Removed client instance variable
-  private model: string;
+  readonly model: string;
 
   // Removed baseURL parameter
   constructor(model: string = 'nomic-embed-text') {
@@ -18,143 +89,193 @@ export class OllamaProvider implements EmbeddingProvider {
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    try {
-      console.error(`Generating Ollama embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
-      // Use the imported ollama object directly
-      const response = await ollama.embeddings({
-        model: this.model,
-        prompt: text
-      });
-      console.error('Successfully generated Ollama embeddings with size:', response.embedding.length);
-      return response.embedding;
-    } catch (error) {
-      console.error('Ollama embedding error:', error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to generate embeddings with Ollama: ${error}`
-      );
-    }
+    console.error(`Generating Ollama embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
+    // Use the imported ollama object directly
+    const response = await ollama.embeddings({
+      model: this.model,
+      prompt: text
+    });
+    console.error('Successfully generated Ollama embeddings with size:', response.embedding.length);
+    return response.embedding;
   }
 
-  getVectorSize(): number {
-    // Vector size depends on the model. Nomic-embed-text is 768.
-    // Add logic here if supporting other Ollama models with different sizes.
-    if (this.model.includes('nomic-embed-text')) {
-        return 768;
-    }
-    // Default or throw error if size is unknown for the model
-    console.warn(`Unknown vector size for Ollama model ${this.model}, defaulting to 768. Please verify.`);
-    return 768;
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    console.error(`Generating Ollama embeddings (${this.model}) for ${texts.length} texts`);
+    const response = await ollama.embed({
+      model: this.model,
+      input: texts,
+    });
+    return checkBatchResult(texts, response.embeddings);
   }
 }
 
 export class OpenAIProvider implements EmbeddingProvider {
+  // The API accepts up to 2048 inputs and 300k tokens per request
+  readonly batchLimits: BatchLimits = { maxInputs: 2048, maxTokens: 250000 };
+  readonly supportsDimensions = true;
+  readonly name = 'openai';
+
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
+  private dimensions?: number;
 
   // Added optional baseURL
-  constructor(apiKey: string, model: string = 'text-embedding-3-small', baseURL?: string) {
-    this.client = new OpenAI({ apiKey, baseURL }); // Pass baseURL
+  constructor(apiKey: string, model: string = 'text-embedding-3-small', baseURL?: string, dimensions?: number) {
+    // Retries are handled by EmbeddingService so every provider follows the same policy
+    this.client = new OpenAI({ apiKey, baseURL, maxRetries: 0 }); // Pass baseURL
     this.model = model;
+    this.dimensions = dimensions; // Only text-embedding-3 and later models accept this
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    try {
-      console.error(`Generating OpenAI embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
-      const response = await this.client.embeddings.create({
-        model: this.model,
-        input: text,
-      });
-      const embedding = response.data[0].embedding;
-      console.error('Successfully generated OpenAI embeddings with size:', embedding.length);
-      return embedding;
-    } catch (error) {
-      console.error('OpenAI embedding error:', error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to generate embeddings with OpenAI: ${error}`
-      );
-    }
+    console.error(`Generating OpenAI embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+      dimensions: this.dimensions,
+    });
+    const embedding = response.data[0].embedding;
+    console.error('Successfully generated OpenAI embeddings with size:', embedding.length);
+    return embedding;
   }
 
-  getVectorSize(): number {
-    // Vector size depends on the model.
-    // text-embedding-3-small: 1536
-    // text-embedding-3-large: 3072
-    // text-embedding-ada-002: 1536
-    if (this.model.includes('text-embedding-3-small') || this.model.includes('ada-002')) {
-        return 1536;
-    }
-    if (this.model.includes('text-embedding-3-large')) {
-        return 3072;
-    }
-    // Default or throw error if size is unknown
-    console.warn(`Unknown vector size for OpenAI model ${this.model}, defaulting to 1536. Please verify.`);
-    return 1536;
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    console.error(`Generating OpenAI embeddings (${this.model}) for ${texts.length} texts`);
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions,
+    });
+    // Each item carries the index of its input; don't rely on response order
+    const ordered = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    return checkBatchResult(texts, ordered);
   }
 }
 
 // Added GoogleGenAIProvider
 export class GoogleGenAIProvider implements EmbeddingProvider {
+  // batchEmbedContents takes at most 100 requests; inputs over 2048 tokens are truncated
+  readonly batchLimits: BatchLimits = { maxInputs: 100, maxTokens: 100000 };
+  readonly supportsDimensions = true;
+  readonly name = 'google';
+
   private client: GoogleGenAI; // Use named import for type
-  private model: string;
+  readonly model: string;
+  private dimensions?: number;
 
-  constructor(apiKey: string, model: string = 'embedding-001') { // Defaulting to stable embedding-001
+  constructor(apiKey: string, model: string = 'embedding-001', dimensions?: number) { // Defaulting to stable embedding-001
     this.client = new GoogleGenAI({ apiKey }); // Pass apiKey in options object
     this.model = model;
+    this.dimensions = dimensions;
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
-    try {
-      console.error(`Generating Google Gemini embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
-      // Use models.embedContent as per documentation snippet
-      const response = await this.client.models.embedContent({
-        model: this.model,
-        contents: text, // Correct parameter name is 'contents'
-      });
-      // Check if embeddings exist and get values from the first embedding
-      if (!response.embeddings || response.embeddings.length === 0) {
-        throw new Error('Google Gemini API did not return embeddings.');
-      }
-      const embedding = response.embeddings[0].values;
-      if (!embedding) {
-         throw new Error('Google Gemini embedding object did not contain values.');
-      }
-      console.error('Successfully generated Google Gemini embeddings with size:', embedding.length);
-      return embedding;
-    } catch (error) {
-      console.error('Google Gemini embedding error:', error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to generate embeddings with Google Gemini: ${error}`
-      );
+    console.error(`Generating Google Gemini embeddings (${this.model}) for text:`, text.substring(0, 50) + '...');
+    // Use models.embedContent as per documentation snippet
+    const response = await this.client.models.embedContent({
+      model: this.model,
+      contents: text, // Correct parameter name is 'contents'
+      config: { outputDimensionality: this.dimensions },
+    });
+    // Check if embeddings exist and get values from the first embedding
+    if (!response.embeddings || response.embeddings.length === 0) {
+      throw new Error('Google Gemini API did not return embeddings.');
     }
+    const embedding = response.embeddings[0].values;
+    if (!embedding) {
+       throw new Error('Google Gemini embedding object did not contain values.');
+    }
+    console.error('Successfully generated Google Gemini embeddings with size:', embedding.length);
+    return embedding;
   }
 
-  getVectorSize(): number {
-    // embedding-001 produces 768-dimensional vectors
-    // Check documentation for other models
-    if (this.model.includes('embedding-001')) {
-        return 768;
-    }
-    console.warn(`Unknown vector size for Google Gemini model ${this.model}, defaulting to 768. Please verify.`);
-    return 768;
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    console.error(`Generating Google Gemini embeddings (${this.model}) for ${texts.length} texts`);
+    // Passing several contents makes the SDK use the batch endpoint
+    const response = await this.client.models.embedContent({
+      model: this.model,
+      contents: texts,
+      config: { outputDimensionality: this.dimensions },
+    });
+    const values = (response.embeddings || []).map(embedding => {
+      if (!embedding.values) {
+        throw new Error('Google Gemini embedding object did not contain values.');
+      }
+      return embedding.values;
+    });
+    return checkBatchResult(texts, values);
   }
 }
 
 export class EmbeddingService {
   private provider: EmbeddingProvider;
+  private limiter: RateLimiter;
+  private dimensions?: number; // EMBEDDING_DIMENSIONS override
+  private vectorSize?: Promise<number>;
 
-  constructor(provider: EmbeddingProvider) {
+  constructor(provider: EmbeddingProvider, dimensions?: number) {
     this.provider = provider;
+    this.dimensions = dimensions;
+    this.limiter = new RateLimiter({
+      maxConcurrency: EMBEDDING_MAX_CONCURRENCY,
+      requestsPerMinute: EMBEDDING_REQUESTS_PER_MINUTE,
+      maxRetries: EMBEDDING_MAX_RETRIES,
+      retryBaseDelayMs: EMBEDDING_RETRY_BASE_MS,
+      retryMaxDelayMs: EMBEDDING_RETRY_MAX_MS,
+    });
   }
 
-  async generateEmbeddings(text: string): Promise<number[]> {
-    return this.provider.generateEmbeddings(text);
+  // `usage`, when given, is incremented by the number of retried requests
+  async generateEmbeddings(text: string, usage?: RetryUsage): Promise<number[]> {
+    return this.limiter.run(() => this.provider.generateEmbeddings(text), usage);
+  }
+
+  // Splits the texts into requests that fit the provider's limits and runs them through the rate limiter
+  async generateEmbeddingsBatch(texts: string[], usage?: RetryUsage): Promise<number[][]> {
+    const batches = splitIntoBatches(texts, this.provider.batchLimits);
+    const results = await Promise.all(
+      batches.map(batch => this.limiter.run(() => this.provider.generateEmbeddingsBatch(batch), usage))
+    );
+    return results.flat();
   }
 
-  getVectorSize(): number {
-    return this.provider.getVectorSize();
+  // Provider and model name, recorded on collections so vectors from different models are never mixed
+  describe(): { provider: string; model: string } {
+    return { provider: this.provider.name, model: this.provider.model };
+  }
+
+  /**
+   * Size of the vectors the configured model produces, measured by embedding
+   * a probe string the first time it is needed. A failed probe is not cached,
+   * so the next call tries again (e.g. once Ollama has pulled the model).
+   */
+  async getVectorSize(): Promise<number> {
+    if (this.dimensions && this.provider.supportsDimensions) {
+      return this.dimensions;
+    }
+    if (!this.vectorSize) {
+      this.vectorSize = this.probeVectorSize();
+      this.vectorSize.catch(() => {
+        this.vectorSize = undefined;
+      });
+    }
+    return this.vectorSize;
+  }
+
+  private async probeVectorSize(): Promise<number> {
+    const size = (await this.generateEmbeddings(DIMENSION_PROBE_TEXT)).length;
+    if (size === 0) {
+      throw new Error('Embedding provider returned an empty vector');
+    }
+    // Models whose size cannot be chosen must already produce the requested size
+    if (this.dimensions && size !== this.dimensions) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `EMBEDDING_DIMENSIONS is ${this.dimensions}, but the embedding model produces ${size}-dimensional vectors and its size cannot be changed`
+      );
+    }
+    console.error(`Detected embedding vector size: ${size}`);
+    return size;
   }
 
   // Updated factory method
@@ -165,11 +286,15 @@ export class EmbeddingService {
     openaiBaseUrl?: string; // Added
     geminiApiKey?: string; // Added
     model?: string;
+    dimensions?: number; // Requested vector size, for models that support choosing one
   }): EmbeddingService {
+    if (config.dimensions !== undefined && (!Number.isInteger(config.dimensions) || config.dimensions <= 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'EMBEDDING_DIMENSIONS must be a positive integer');
+    }
     switch (config.provider) {
       case 'ollama':
         // Removed ollamaBaseUrl from constructor call
-        return new EmbeddingService(new OllamaProvider(config.model));
+        return new EmbeddingService(new OllamaProvider(config.model), config.dimensions);
       case 'openai':
         if (!config.openaiApiKey) {
           throw new McpError(
@@ -178,7 +303,10 @@ export class EmbeddingService {
           );
         }
         // Pass optional openaiApiKey, model, openaiBaseUrl
-        return new EmbeddingService(new OpenAIProvider(config.openaiApiKey, config.model, config.openaiBaseUrl));
+        return new EmbeddingService(
+          new OpenAIProvider(config.openaiApiKey, config.model, config.openaiBaseUrl, config.dimensions),
+          config.dimensions
+        );
       case 'google': // Added case for google
         if (!config.geminiApiKey) {
           throw new McpError(
@@ -186,7 +314,7 @@ export class EmbeddingService {
             'Google Gemini API key (GEMINI_API_KEY) is required for google provider'
           );
         }
-        return new EmbeddingService(new GoogleGenAIProvider(config.geminiApiKey, config.model));
+        return new EmbeddingService(new GoogleGenAIProvider(config.geminiApiKey, config.model, config.dimensions), config.dimensions);
       default:
         // Ensure exhaustive check with 'never'
         const exhaustiveCheck: never = config.provider;
@@ -0,0 +1,280 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { promises as fs } from 'fs';
+import { ContentBlock, extractHtmlBlocks } from './chunking.js';
+
+// JSON file mapping domains to extraction profiles; re-read whenever it changes
+const EXTRACTION_PROFILES_FILE = process.env.EXTRACTION_PROFILES_FILE;
+
+const ALWAYS_REMOVED = 'script, style, noscript, template';
+// Page chrome removed before the readability fallback looks for the main content
+const BOILERPLATE_SELECTORS = [
+  'nav', 'aside', 'footer', 'form', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="search"]', '[role="dialog"]', '[aria-modal="true"]',
+].join(', ');
+const CONTAINER_TAGS = new Set(['div', 'section', 'article', 'main', 'td']);
+// Matched against each class name and the id, as whole `-`/`_`-separated words
+const UNLIKELY_NAMES = /^(?:.*[-_])?(?:cookies?|consent|gdpr|banner|announcement|newsletter|subscribe|popup|modal|overlay|sidebar|sidenav|navbar|menu|breadcrumbs?|toc|table-of-contents|pagination|pager|footer|social|share|sharing|feedback|rating|skip|ads?|advert(?:isement)?)(?:[-_].*)?$/i;
+const LIKELY_NAMES = /^(?:.*[-_])?(?:content|article|main|body|documentation|markdown|prose|post|entry)(?:[-_].*)?$/i;
+const MIN_PARAGRAPH_LENGTH = 25;
+
+export interface ExtractionProfile {
+  include?: string[]; // Elements holding the content, extracted in document order
+  exclude?: string[]; // Elements removed before extraction
+  title?: string; // Element whose text is the page title
+}
+
+export interface MatchedProfile {
+  domain: string; // Profile key that matched the page's host
+  profile: ExtractionProfile;
+}
+
+export interface ExtractedContent {
+  title: string;
+  blocks: ContentBlock[];
+  strategy: string; // How the content was located, e.g. "profile for docs.example.com"
+  language?: string; // Primary subtag of the page's `lang` attribute, e.g. "en"
+}
+
+let cachedProfiles: { file: string; mtimeMs: number; profiles: Map<string, ExtractionProfile> } | undefined;
+
+// Throws if the value is not a profile or one of its selectors does not parse
+export function validateExtractionProfile(value: unknown): ExtractionProfile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('a profile must be an object with include, exclude and/or title');
+  }
+  const { include, exclude, title, ...rest } = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    throw new Error(`unknown profile key${unknownKeys.length === 1 ? '' : 's'} ${unknownKeys.join(', ')}`);
+  }
+  for (const [key, selectors] of [['include', include], ['exclude', exclude]] as const) {
+    if (selectors !== undefined && (!Array.isArray(selectors) || !selectors.every(s => typeof s === 'string' && s.trim()))) {
+      throw new Error(`${key} must be an array of CSS selectors`);
+    }
+  }
+  if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+    throw new Error('title must be a CSS selector');
+  }
+
+  const profile: ExtractionProfile = {
+    include: include as string[] | undefined,
+    exclude: exclude as string[] | undefined,
+    title: title as string | undefined,
+  };
+  const $ = cheerio.load('');
+  for (const selector of [...(profile.include || []), ...(profile.exclude || []), ...(profile.title ? [profile.title] : [])]) {
+    try {
+      $(selector);
+    } catch (error) {
+      throw new Error(`invalid selector "${selector}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return profile;
+}
+
+async function loadExtractionProfiles(): Promise<Map<string, ExtractionProfile>> {
+  if (!EXTRACTION_PROFILES_FILE) {
+    return new Map();
+  }
+  try {
+    const { mtimeMs } = await fs.stat(EXTRACTION_PROFILES_FILE);
+    if (cachedProfiles?.file === EXTRACTION_PROFILES_FILE && cachedProfiles.mtimeMs === mtimeMs) {
+      return cachedProfiles.profiles;
+    }
+    const document = JSON.parse(await fs.readFile(EXTRACTION_PROFILES_FILE, 'utf-8'));
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new Error('expected an object mapping domains to profiles');
+    }
+    const profiles = new Map<string, ExtractionProfile>();
+    for (const [domain, value] of Object.entries(document)) {
+      try {
+        profiles.set(domain.toLowerCase(), validateExtractionProfile(value));
+      } catch (error) {
+        throw new Error(`${domain}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    cachedProfiles = { file: EXTRACTION_PROFILES_FILE, mtimeMs, profiles };
+    console.error(`Loaded ${profiles.size} extraction profiles from ${EXTRACTION_PROFILES_FILE}`);
+    return profiles;
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Invalid extraction profiles file ${EXTRACTION_PROFILES_FILE}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Profile for a page: the key equal to its host wins, then keys for parent
+ * domains, so "example.com" also covers "docs.example.com".
+ */
+export async function findExtractionProfile(url: string): Promise<MatchedProfile | undefined> {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  if (!host) {
+    return undefined; // file: URLs
+  }
+  const profiles = await loadExtractionProfiles();
+  for (let domain = host; domain; domain = domain.slice(domain.indexOf('.') + 1 || domain.length)) {
+    const profile = profiles.get(domain);
+    if (profile) {
+      return { domain, profile };
+    }
+  }
+  return undefined;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function describeElement($: CheerioAPI, element: any): string {
+  const node = $(element);
+  const id = node.attr('id');
+  const classes = (node.attr('class') || '').split(/\s+/).filter(Boolean).slice(0, 2);
+  return `<${element.tagName}${id ? `#${id}` : ''}${classes.map(name => `.${name}`).join('')}>`;
+}
+
+function elementNames($: CheerioAPI, element: any): string[] {
+  const node = $(element);
+  return [...(node.attr('class') || '').split(/\s+/), node.attr('id') || ''].filter(Boolean);
+}
+
+function hasUnlikelyName($: CheerioAPI, element: any): boolean {
+  const names = elementNames($, element);
+  return names.some(name => UNLIKELY_NAMES.test(name)) && !names.some(name => LIKELY_NAMES.test(name));
+}
+
+// Starting score of a candidate content element, from its class names and id
+function nameWeight($: CheerioAPI, element: any): number {
+  if (hasUnlikelyName($, element)) {
+    return -25;
+  }
+  return elementNames($, element).some(name => LIKELY_NAMES.test(name)) ? 25 : 0;
+}
+
+// Removes navigation, banners and similar chrome, but never an element that wraps the main content
+function removeBoilerplate($: CheerioAPI): void {
+  const keeps = (element: any) => $(element).find('main, article, [role="main"], h1').length > 0;
+  $(BOILERPLATE_SELECTORS).filter((_, element) => !keeps(element)).remove();
+  // Site headers hold navigation; headers of the article itself hold its title
+  $('header').filter((_, element) => $(element).closest('main, article, [role="main"]').length === 0 && !keeps(element)).remove();
+  $('div, section, ul, ol, p, span, table')
+    .filter((_, element) => hasUnlikelyName($, element) && !keeps(element))
+    .remove();
+}
+
+function linkDensity($: CheerioAPI, node: Cheerio<any>): number {
+  const textLength = normalizeText(node.text()).length;
+  if (textLength === 0) {
+    return 0;
+  }
+  let linkLength = 0;
+  node.find('a').each((_, link) => {
+    linkLength += normalizeText($(link).text()).length;
+  });
+  return Math.min(1, linkLength / textLength);
+}
+
+/**
+ * Readability-style search for the element holding the main text: each
+ * paragraph credits its parent fully and its grandparent by half, scores are
+ * adjusted by class names and link density, and the best element wins. When
+ * similarly scored siblings exist the content is split across them, so their
+ * common parent is used instead.
+ */
+function findContentRoot($: CheerioAPI): Cheerio<any> {
+  const semantic = $('main, [role="main"]').first();
+  if (semantic.length > 0 && normalizeText(semantic.text()).length > 0) {
+    return semantic;
+  }
+  const articles = $('article');
+  if (articles.length === 1) {
+    return articles;
+  }
+
+  const scores = new Map<any, number>();
+  const credit = (element: any, points: number) => {
+    if (!element || element.type !== 'tag' || !CONTAINER_TAGS.has(element.tagName)) {
+      return;
+    }
+    scores.set(element, (scores.get(element) ?? nameWeight($, element)) + points);
+  };
+  $('p, pre, td, dd, blockquote').each((_, paragraph: any) => {
+    const text = normalizeText($(paragraph).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+    // One point, plus one per comma and per 100 characters (up to three)
+    const points = text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    credit(paragraph.parent, points);
+    credit(paragraph.parent?.parent, points / 2);
+  });
+
+  let best: any;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(element)));
+    scores.set(element, adjusted);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) {
+    return $('body');
+  }
+  const threshold = Math.max(10, bestScore * 0.2);
+  const hasStrongSibling = $(best).siblings().toArray().some(sibling => (scores.get(sibling) ?? 0) >= threshold);
+  return hasStrongSibling && best.parent?.type === 'tag' ? $(best.parent) : $(best);
+}
+
+/**
+ * Extracts the title and content blocks of an HTML page. With a profile, its
+ * exclude selectors are removed and its include selectors locate the content;
+ * otherwise, or if no include selector matches, boilerplate is stripped and
+ * the content is found with readability-style heuristics.
+ */
+export function extractContent(html: string, fallbackTitle: string, match?: MatchedProfile): ExtractedContent {
+  const $ = cheerio.load(html);
+  $(ALWAYS_REMOVED).remove();
+  const profile = match?.profile;
+
+  const profileTitle = profile?.title ? normalizeText($(profile.title).first().text()) : '';
+  const title = profileTitle || normalizeText($('title').text()) || fallbackTitle;
+  const language = ($('html').attr('lang') || '').trim().toLowerCase().split(/[-_]/)[0] || undefined;
+
+  if (profile) {
+    if (profile.exclude?.length) {
+      $(profile.exclude.join(', ')).remove();
+    }
+    if (!profile.include?.length) {
+      return { title, blocks: extractHtmlBlocks($, $('body')), strategy: `profile for ${match!.domain}`, language };
+    }
+    // Nested matches would be extracted twice; keep the outermost ones
+    const roots = $(profile.include.join(', '));
+    const outermost = roots.filter((_, element) => !$(element).parents().is(roots));
+    if (outermost.length > 0) {
+      return { title, blocks: extractHtmlBlocks($, outermost), strategy: `profile for ${match!.domain}`, language };
+    }
+  }
+
+  removeBoilerplate($);
+  const root = findContentRoot($);
+  const located = root.length > 0 && root[0].tagName !== 'body' ? ` (${describeElement($, root[0])})` : ' (whole page)';
+  return {
+    title,
+    blocks: extractHtmlBlocks($, root.length > 0 ? root : $.root()),
+    strategy: profile
+      ? `profile for ${match!.domain} matched no include selector; readability fallback${located}`
+      : `readability${located}`,
+    language,
+  };
+}
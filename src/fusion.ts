@@ -0,0 +1,29 @@
+// Constant from the original RRF paper (Cormack et al., 2009)
+const RRF_K = 60;
+
+export interface RankedItem {
+  id: string | number;
+  score: number;
+}
+
+/**
+ * Merges several ranked lists with reciprocal rank fusion. Each item scores
+ * sum(1 / (k + rank)) over the lists it appears in; the returned items carry
+ * the fused score and the first-seen copy of everything else.
+ */
+export function reciprocalRankFusion<T extends RankedItem>(lists: T[][], k: number = RRF_K): T[] {
+  const fused = new Map<string, { item: T; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((item, rank) => {
+      const key = String(item.id);
+      const entry = fused.get(key) || { item, score: 0 };
+      entry.score += 1 / (k + rank + 1);
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ item, score }) => ({ ...item, score }));
+}
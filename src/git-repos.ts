@@ -0,0 +1,108 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Shallow clones of large repositories can take a while
+const GIT_CLONE_TIMEOUT_MS = parseInt(process.env.GIT_CLONE_TIMEOUT_MS || '300000', 10);
+
+export interface ClonedRepository {
+  dir: string; // Temporary directory holding the clone; remove it with removeClone
+  ref: string; // Branch or tag that was checked out
+  webUrl: string; // Browsable https URL of the repository
+}
+
+export function isRemoteRepository(repository: string): boolean {
+  return /^(https?|ssh|git):\/\//.test(repository) || /^[\w.-]+@[\w.-]+:/.test(repository);
+}
+
+// Browsable https URL of a remote such as git@github.com:owner/repo.git or https://github.com/owner/repo.git
+export function toRepositoryWebUrl(repository: string): string | undefined {
+  const scp = repository.match(/^[\w.-]+@([\w.-]+):(.+)$/);
+  let url: URL;
+  try {
+    url = new URL(scp ? `https://${scp[1]}/${scp[2]}` : repository);
+  } catch {
+    return undefined;
+  }
+  if (!['https:', 'http:', 'ssh:', 'git:'].includes(url.protocol)) {
+    return undefined;
+  }
+  return `https://${url.hostname}${url.pathname.replace(/\.git$/, '').replace(/\/+$/, '')}`;
+}
+
+/**
+ * Link to a file in a repository's web UI. GitHub,
+ * GitLab and Bitbucket are recognised; other hosts get GitHub-style links,
+ * which Gitea and most GitHub-compatible forges also accept.
+ */
+export function toFileWebUrl(webUrl: string, ref: string, filePath: string): string {
+  const host = new URL(webUrl).hostname;
+  const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+  if (host.includes('gitlab')) {
+    return `${webUrl}/-/blob/${ref}/${encodedPath}`;
+  }
+  if (host === 'bitbucket.org') {
+    return `${webUrl}/src/${ref}/${encodedPath}`;
+  }
+  return `${webUrl}/blob/${ref}/${encodedPath}`;
+}
+
+// Raw-content URL for a GitHub or GitLab file page, so the file can be fetched without the page chrome
+export function toRawUrl(url: URL): string | undefined {
+  if (url.hostname === 'github.com') {
+    const match = url.pathname.match(/^\/([^/]+)\/([^/]+)\/blob\/(.+)$/);
+    return match ? `https://raw.githubusercontent.com/${match[1]}/${match[2]}/${match[3]}` : undefined;
+  }
+  if (url.hostname.includes('gitlab') && url.pathname.includes('/-/blob/')) {
+    return `${url.origin}${url.pathname.replace('/-/blob/', '/-/raw/')}`;
+  }
+  return undefined;
+}
+
+async function git(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      timeout: GIT_CLONE_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }, // Fail instead of waiting for credentials
+    });
+    return stdout.trim();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new McpError(ErrorCode.InternalError, 'git is not installed or not on the PATH');
+    }
+    throw new Error((error.stderr || error.message || String(error)).trim());
+  }
+}
+
+// Shallow, single-branch clone into a temporary directory
+export async function cloneRepository(repository: string, ref?: string): Promise<ClonedRepository> {
+  if (repository.startsWith('-') || ref?.startsWith('-')) {
+    throw new McpError(ErrorCode.InvalidParams, 'Repository and ref must not start with "-"');
+  }
+  const webUrl = toRepositoryWebUrl(repository);
+  if (!webUrl) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported repository URL: ${repository}`);
+  }
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ragdocs-repo-'));
+  try {
+    await git(['clone', '--depth', '1', '--single-branch', ...(ref ? ['--branch', ref] : []), '--', repository, dir]);
+    const checkedOut = ref || await git(['rev-parse', '--abbrev-ref', 'HEAD'], dir);
+    return { dir, ref: checkedOut, webUrl };
+  } catch (error) {
+    await removeClone(dir);
+    throw error;
+  }
+}
+
+export async function removeClone(dir: string): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true }).catch(error =>
+    console.error(`Failed to remove temporary clone ${dir}:`, error)
+  );
+}
@@ -6,29 +6,115 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ApiClient } from './api-client.js';
-import { ToolDefinition } from './types.js';
+import { JobOutput, ToolDefinition } from './types.js';
 import {
   AddDocumentationHandler,
   SearchDocumentationHandler,
   ListSourcesHandler,
   RemoveDocumentationHandler,
   ExtractUrlsHandler,
+  CrawlDocumentationHandler,
+  AddSitemapHandler,
+  AddDirectoryHandler,
+  AddRepositoryHandler,
+  AddOpenApiHandler,
+  PreviewExtractionHandler,
   ListQueueHandler,
   RunQueueHandler,
 		ClearQueueHandler,
+  CreateCollectionHandler,
+  ListCollectionsHandler,
+  DeleteCollectionHandler,
+  ConfigureCollectionHandler,
+  RetryFailedHandler,
+  MigrateEmbeddingsHandler,
+  TagSourceHandler,
+  UntagSourceHandler,
+  GetJobStatusHandler,
+  ListJobsHandler,
+  CancelJobHandler,
 } from './handlers/index.js';
+import { QUEUE_STATUSES } from './queue-store.js';
+import { RERANKER_NAMES } from './reranking.js';
+import { OUTPUT_FORMATS, formatError, formatOutput, getOutputFormat } from './output.js';
+import { ToolContext } from './tool-context.js';
+import { BACKGROUND_TOOLS, JobManager, formatJob } from './jobs.js';
+import { JOB_STATUSES } from './job-store.js';
 
-const COLLECTION_NAME = 'documentation';
+const IGNORE_ROBOTS_PROPERTY = {
+  type: 'boolean',
+  description: 'Fetch pages even if the site\'s robots.txt disallows them, and skip its crawl delay. Only use this for sites you are permitted to crawl, such as internal documentation.',
+  default: false,
+};
+
+// Labels accepted by every indexing tool and by tag_source
+const SOURCE_METADATA_PROPERTIES = {
+  tags: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Tags to attach to every indexed chunk, e.g. ["frontend", "internal"]. Searches can be restricted to them.',
+  },
+  version: {
+    type: 'string',
+    description: 'Documentation version the pages belong to, e.g. "18.2".',
+  },
+  product: {
+    type: 'string',
+    description: 'Product or library the pages document, e.g. "react".',
+  },
+  metadata: {
+    type: 'object',
+    additionalProperties: { type: ['string', 'number', 'boolean'] },
+    description: 'Arbitrary key/value pairs to store with the chunks (up to 20 keys of letters, digits, "-" or "_"), e.g. {"team": "payments"}.',
+  },
+};
+
+const VERSIONS_PROPERTY = {
+  type: 'array',
+  items: { type: 'string' },
+  description: 'Versions to index when the URL contains {version}, e.g. ["2.x", "3.x"]. Each version\'s URL is indexed separately and labelled with its version.',
+};
+
+const BACKGROUND_PROPERTY = {
+  type: 'boolean',
+  description: 'Run as a background job and return its job ID at once, instead of keeping the call open until the work is done. Follow it with get_job_status.',
+  default: false,
+};
+
+const COLLECTION_PROPERTY = {
+  type: 'string',
+  description: 'Name of the collection to use (letters, digits, "-" and "_"). Defaults to the server\'s default collection ("documentation" unless DEFAULT_COLLECTION is set).',
+};
+
+// Accepted by every tool; added to the schemas when they are listed
+const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: OUTPUT_FORMATS,
+  description: "'text' (default) for a readable summary, or 'json' for a JSON object with the same information, e.g. search results with their id, score, url, title, heading path and text.",
+  default: 'text',
+};
+
+function withOutputFormat(tool: ToolDefinition): ToolDefinition {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, output_format: OUTPUT_FORMAT_PROPERTY },
+    },
+  };
+}
 
 export class HandlerRegistry {
   private server: Server;
   private apiClient: ApiClient;
   private handlers: Map<string, any>;
+  private jobs: JobManager;
 
   constructor(server: Server, apiClient: ApiClient) {
     this.server = server;
     this.apiClient = apiClient;
     this.handlers = new Map();
+    this.jobs = new JobManager((tool, args, context) => this.handlers.get(tool).handle(args, context));
     this.setupHandlers();
     this.registerHandlers();
   }
@@ -39,14 +125,36 @@ export class HandlerRegistry {
     this.handlers.set('list_sources', new ListSourcesHandler(this.server, this.apiClient));
     this.handlers.set('remove_documentation', new RemoveDocumentationHandler(this.server, this.apiClient));
     this.handlers.set('extract_urls', new ExtractUrlsHandler(this.server, this.apiClient));
+    this.handlers.set('crawl_documentation', new CrawlDocumentationHandler(this.server, this.apiClient));
+    this.handlers.set('add_sitemap', new AddSitemapHandler(this.server, this.apiClient));
+    this.handlers.set('add_directory', new AddDirectoryHandler(this.server, this.apiClient));
+    this.handlers.set('add_repository', new AddRepositoryHandler(this.server, this.apiClient));
+    this.handlers.set('add_openapi', new AddOpenApiHandler(this.server, this.apiClient));
+    this.handlers.set('preview_extraction', new PreviewExtractionHandler(this.server, this.apiClient));
     this.handlers.set('list_queue', new ListQueueHandler(this.server, this.apiClient));
     this.handlers.set('run_queue', new RunQueueHandler(this.server, this.apiClient));
     this.handlers.set('clear_queue', new ClearQueueHandler(this.server, this.apiClient));
+    this.handlers.set('create_collection', new CreateCollectionHandler(this.server, this.apiClient));
+    this.handlers.set('list_collections', new ListCollectionsHandler(this.server, this.apiClient));
+    this.handlers.set('delete_collection', new DeleteCollectionHandler(this.server, this.apiClient));
+    this.handlers.set('configure_collection', new ConfigureCollectionHandler(this.server, this.apiClient));
+    this.handlers.set('retry_failed', new RetryFailedHandler(this.server, this.apiClient));
+    this.handlers.set('migrate_embeddings', new MigrateEmbeddingsHandler(this.server, this.apiClient));
+    this.handlers.set('tag_source', new TagSourceHandler(this.server, this.apiClient));
+    this.handlers.set('untag_source', new UntagSourceHandler(this.server, this.apiClient));
+    this.handlers.set('get_job_status', new GetJobStatusHandler(this.server, this.apiClient, this.jobs));
+    this.handlers.set('list_jobs', new ListJobsHandler(this.server, this.apiClient, this.jobs));
+    this.handlers.set('cancel_job', new CancelJobHandler(this.server, this.apiClient, this.jobs));
+  }
+
+  // Resumes the background jobs that were running when the server stopped
+  async resumeJobs(): Promise<void> {
+    await this.jobs.resumeInterrupted();
   }
 
   private registerHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+      tools: ([
         {
           name: 'add_documentation',
           description: 'Fetch, process, and index documentation from a given URL. The content is chunked, embedded using the configured provider, and stored in the vector database. Use this to add new documentation sources to the system.',
@@ -55,8 +163,12 @@ export class HandlerRegistry {
             properties: {
               url: {
                 type: 'string',
-                description: 'The complete URL of the documentation page to add (must include protocol, e.g., https://). The page must be publicly accessible.',
+                description: 'The complete URL of the documentation page to add (must include protocol, e.g., https://), or a local file path or file:// URI inside the directories allowed by LOCAL_ALLOWED_ROOTS. May contain {version}, see versions.',
               },
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+              versions: VERSIONS_PROPERTY,
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
             },
             required: ['url'],
           },
@@ -64,7 +176,7 @@ export class HandlerRegistry {
 
         {
           name: 'search_documentation',
-          description: 'Search through stored documentation using natural language queries. Use this tool to find relevant information across all stored documentation sources. Returns matching excerpts with context, ranked by relevance. Useful for finding specific information, code examples, or related documentation.',
+          description: 'Search through stored documentation using natural language queries, exact keywords, or both. Use this tool to find relevant information across all stored documentation sources. Returns matching excerpts with context, ranked by relevance. Useful for finding specific information, code examples, or related documentation.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -77,6 +189,101 @@ export class HandlerRegistry {
                 description: 'Maximum number of results to return (1-20). Higher limits provide more comprehensive results but may take longer to process. Default is 5.',
                 default: 5,
               },
+              mode: {
+                type: 'string',
+                enum: ['semantic', 'keyword', 'hybrid'],
+                description: 'Search strategy. "semantic" uses embedding similarity, "keyword" uses BM25-style term matching (best for exact identifiers such as function names or error codes), and "hybrid" merges both with reciprocal rank fusion. Default is "hybrid".',
+                default: 'hybrid',
+              },
+              collection: {
+                oneOf: [
+                  { type: 'string' },
+                  { type: 'array', items: { type: 'string' } },
+                ],
+                description: 'Collection(s) to search: a single name, an array of names, or "*" for all collections. Defaults to the default collection.',
+              },
+              url_prefix: {
+                type: 'string',
+                description: 'Only return chunks from URLs starting with this prefix, including the scheme, e.g. "https://react.dev/reference/".',
+              },
+              domain: {
+                type: 'string',
+                description: 'Only return chunks from pages on this host, e.g. "docs.python.org".',
+              },
+              title: {
+                type: 'string',
+                description: 'Only return chunks from pages whose title contains these words.',
+              },
+              indexed_after: {
+                type: 'string',
+                description: 'Only return chunks indexed or refreshed at or after this ISO 8601 date or time.',
+              },
+              indexed_before: {
+                type: 'string',
+                description: 'Only return chunks indexed or refreshed at or before this ISO 8601 date or time.',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only return chunks carrying at least one of these tags.',
+              },
+              version: {
+                oneOf: [
+                  { type: 'string' },
+                  { type: 'array', items: { type: 'string' } },
+                ],
+                description: 'Only return chunks of this documentation version (or any of these versions). Defaults to "latest": the newest indexed version of each product, plus unversioned documentation. Pass "*" to search every version.',
+              },
+              product: {
+                oneOf: [
+                  { type: 'string' },
+                  { type: 'array', items: { type: 'string' } },
+                ],
+                description: 'Only return chunks of this product (or any of these products).',
+              },
+              metadata: {
+                type: 'object',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+                description: 'Only return chunks whose metadata has all of these key/value pairs, e.g. {"team": "payments"}.',
+              },
+              language: {
+                oneOf: [
+                  { type: 'string' },
+                  { type: 'array', items: { type: 'string' } },
+                ],
+                description: 'Only return chunks of pages in this language (or any of these languages), as declared by the page, e.g. "en".',
+              },
+              method: {
+                type: 'string',
+                description: 'Only return API operations (indexed with add_openapi) with this HTTP method, e.g. "POST".',
+              },
+              path: {
+                type: 'string',
+                description: 'Only return API operations with exactly this path template, e.g. "/pets/{petId}".',
+              },
+              operation_id: {
+                type: 'string',
+                description: 'Only return the API operation with this operationId.',
+              },
+              rerank: {
+                oneOf: [
+                  { type: 'boolean' },
+                  { type: 'string', enum: RERANKER_NAMES },
+                ],
+                description: 'Rescore the best candidates with a reranker before returning the top results: true for the reranker configured with RERANK_PROVIDER (lexical unless set), or "lexical", "ollama", "cohere" or "openai".',
+              },
+              rerank_candidates: {
+                type: 'number',
+                description: 'Number of candidates to rerank (at least limit, at most 100). Defaults to RERANK_CANDIDATES (30).',
+              },
+              score_threshold: {
+                type: 'number',
+                description: 'Minimum semantic similarity (0-1) of first-stage results. Overrides the collection\'s score threshold. When reranking, it only applies if given, to the candidates before they are reranked; the reranker\'s scores are cut off with rerank_threshold.',
+              },
+              rerank_threshold: {
+                type: 'number',
+                description: 'Minimum reranker score (0-1) of reranked results. Reranker scores are on their own scale, not comparable to semantic similarity. Overrides the collection\'s rerank threshold; ignored without rerank.',
+              },
             },
             required: ['query'],
           },
@@ -86,7 +293,10 @@ export class HandlerRegistry {
           description: 'List all documentation sources currently stored in the system. Returns a comprehensive list of all indexed documentation including source URLs, titles, and last update times. Use this to understand what documentation is available for searching or to verify if specific sources have been indexed.',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              collection: COLLECTION_PROPERTY,
+            },
+            required: [],
           },
         } as ToolDefinition,
         {
@@ -104,10 +314,280 @@ export class HandlerRegistry {
                 description: 'If true, automatically add extracted URLs to the processing queue for later indexing. This enables recursive documentation discovery. Use with caution on large sites to avoid excessive queuing.',
                 default: false,
               },
+              collection: {
+                type: 'string',
+                description: 'Collection the queued URLs should be indexed into. Defaults to the default collection.',
+              },
+              ...SOURCE_METADATA_PROPERTIES,
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
             },
             required: ['url'],
           },
         } as ToolDefinition,
+        {
+          name: 'crawl_documentation',
+          description: 'Crawl a documentation site breadth-first from a seed URL, following links up to a maximum depth and page count. Links are restricted to the seed host (and by default its path prefix), filtered by include/exclude patterns, and de-duplicated after normalisation (fragments, query strings and trailing slashes are ignored). Discovered pages are either added to the queue or indexed directly.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'The seed URL to start crawling from (must include protocol, e.g., https://). May contain {version}, e.g. https://example.com/docs/{version}/, to crawl each of versions in turn.',
+              },
+              max_depth: {
+                type: 'number',
+                description: 'Maximum number of links to follow away from the seed page (0 crawls only the seed).',
+                default: 2,
+              },
+              max_pages: {
+                type: 'number',
+                description: 'Maximum number of pages to crawl (up to 1000).',
+                default: 50,
+              },
+              scope: {
+                type: 'string',
+                enum: ['prefix', 'host'],
+                description: "'prefix' (default) only follows links under the seed URL's directory (or the given prefix); 'host' follows any link on the same host.",
+                default: 'prefix',
+              },
+              prefix: {
+                type: 'string',
+                description: "Path prefix used by the 'prefix' scope, e.g. /docs/ or /docs/{version}/. Defaults to the directory of the seed URL.",
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only follow URLs matching at least one of these patterns. Globs (* within a path segment, ** across segments) match the path, or the full URL if they contain ://. Prefix a pattern with re: for a regular expression tested against the full URL, e.g. re:/(api|guide)/.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Never follow URLs matching any of these patterns (same syntax as include).',
+              },
+              keep_query: {
+                type: 'boolean',
+                description: 'Treat URLs that differ only in their query string as distinct pages.',
+                default: false,
+              },
+              action: {
+                type: 'string',
+                enum: ['queue', 'index'],
+                description: "'queue' (default) adds crawled pages to the queue for run_queue; 'index' indexes each page as it is crawled.",
+                default: 'queue',
+              },
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+              versions: VERSIONS_PROPERTY,
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
+              background: BACKGROUND_PROPERTY,
+            },
+            required: ['url'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'add_sitemap',
+          description: 'Read a site\'s sitemap.xml (including sitemap indexes and gzipped sitemaps) and add the listed pages to the queue. Entries can be filtered by URL pattern and last modification date. Pages disallowed by robots.txt are skipped. Use run_queue afterwards to index them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'URL of a sitemap (.xml or .xml.gz) or of the site itself, in which case the sitemaps listed in robots.txt (or /sitemap.xml) are used.',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only queue URLs matching at least one of these patterns (same syntax as crawl_documentation).',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Never queue URLs matching any of these patterns.',
+              },
+              modified_since: {
+                type: 'string',
+                description: 'ISO 8601 date; entries whose lastmod is older are skipped. Entries without a lastmod are always included.',
+              },
+              max_urls: {
+                type: 'number',
+                description: 'Maximum number of URLs to queue. Only URLs matching include/exclude and allowed by robots.txt count toward it.',
+                default: 1000,
+              },
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+            },
+            required: ['url'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'add_directory',
+          description: 'Index a local folder of documentation. The folder is walked recursively, honouring .gitignore files, and Markdown, HTML, reStructuredText, AsciiDoc, plain text and PDF files are parsed according to their format. Files are stored under file:// URIs. The folder must be inside one of the directories allowed by LOCAL_ALLOWED_ROOTS.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'Directory to index, as a path (relative to the server\'s working directory) or a file:// URI.',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only index files matching at least one of these globs. Patterns containing "/" match the path relative to the directory (e.g. "guides/**/*.md"); others match the file name (e.g. "*.rst").',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Never index files matching any of these globs (same syntax as include).',
+              },
+              max_files: {
+                type: 'number',
+                description: 'Maximum number of files to index (up to 5000).',
+                default: 500,
+              },
+              action: {
+                type: 'string',
+                enum: ['index', 'queue'],
+                description: "'index' (default) indexes the files now; 'queue' adds them to the queue for run_queue.",
+                default: 'index',
+              },
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+              background: BACKGROUND_PROPERTY,
+            },
+            required: ['path'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'add_repository',
+          description: 'Index every Markdown file in a git repository or one of its folders (e.g. docs/). Remote repositories are shallow-cloned into a temporary directory; search results link to the file and line in the repository\'s web UI (GitHub, GitLab or Bitbucket). A local clone is read in place and linked with file:// URIs. .gitignore files are honoured.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              repository: {
+                type: 'string',
+                description: 'Git URL (https://github.com/owner/repo or git@github.com:owner/repo.git), or the path of a local clone inside LOCAL_ALLOWED_ROOTS.',
+              },
+              path: {
+                type: 'string',
+                description: 'Folder inside the repository to index, e.g. docs. Defaults to the whole repository.',
+              },
+              ref: {
+                type: 'string',
+                description: 'Branch or tag to clone (remote repositories only). Defaults to the default branch.',
+              },
+              include: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only index Markdown files matching at least one of these globs (same syntax as add_directory, relative to path).',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Never index files matching any of these globs.',
+              },
+              max_files: {
+                type: 'number',
+                description: 'Maximum number of files to index (up to 5000).',
+                default: 500,
+              },
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+              background: BACKGROUND_PROPERTY,
+            },
+            required: ['repository'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'add_openapi',
+          description: 'Index an OpenAPI 3 or Swagger 2 document (JSON or YAML) as API reference documentation, one chunk per operation with its method, path, summary, parameters and request/response schemas. Matching operations can then be found with search_documentation, optionally filtered by method, path or operation_id.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'URL of the OpenAPI document (e.g. https://petstore3.swagger.io/api/v3/openapi.json), or a local file path or file:// URI inside LOCAL_ALLOWED_ROOTS. May contain {version}, see versions.',
+              },
+              collection: COLLECTION_PROPERTY,
+              ...SOURCE_METADATA_PROPERTIES,
+              versions: VERSIONS_PROPERTY,
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
+            },
+            required: ['url'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'preview_extraction',
+          description: 'Show the title and text that would be extracted from an HTML page, without indexing it. Reports whether a per-domain extraction profile (EXTRACTION_PROFILES_FILE) or the readability fallback located the content. Pass `profile` to try out selectors before adding them to the profiles file.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'URL of the page, or a local HTML file path or file:// URI inside LOCAL_ALLOWED_ROOTS.',
+              },
+              profile: {
+                type: 'object',
+                description: 'Extraction profile to use instead of the configured one.',
+                properties: {
+                  include: { type: 'array', items: { type: 'string' }, description: 'CSS selectors of the elements holding the content.' },
+                  exclude: { type: 'array', items: { type: 'string' }, description: 'CSS selectors of elements to remove, e.g. ".cookie-banner".' },
+                  title: { type: 'string', description: 'CSS selector of the element whose text is the page title.' },
+                },
+              },
+              max_chars: {
+                type: 'number',
+                description: 'Maximum number of characters of extracted text to return (default: 4000, at most 50000).',
+                default: 4000,
+              },
+              ignore_robots: IGNORE_ROBOTS_PROPERTY,
+            },
+            required: ['url'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'tag_source',
+          description: 'Add tags or set the version, product or metadata of already indexed sources, without re-fetching or re-embedding them. Tags and metadata keys are added to the existing ones; version and product replace the current values.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              urls: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'URLs of the indexed sources to label, as listed by list_sources.',
+              },
+              ...SOURCE_METADATA_PROPERTIES,
+              collection: COLLECTION_PROPERTY,
+            },
+            required: ['urls'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'untag_source',
+          description: 'Remove tags or clear the version, product or metadata of already indexed sources, without re-embedding them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              urls: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'URLs of the indexed sources to update.',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Tags to remove.',
+              },
+              fields: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Fields to clear: "tags", "version", "product", "metadata", or "metadata.<key>" for a single metadata key.',
+              },
+              collection: COLLECTION_PROPERTY,
+            },
+            required: ['urls'],
+          },
+        } as ToolDefinition,
         {
           name: 'remove_documentation',
           description: 'Remove specific documentation sources from the system by their URLs. Use this tool to clean up outdated documentation, remove incorrect sources, or manage the documentation collection. The removal is permanent and will affect future search results. Supports removing multiple URLs in a single operation.',
@@ -122,40 +602,201 @@ export class HandlerRegistry {
                 },
                 description: 'Array of URLs to remove from the database',
               },
+              collection: COLLECTION_PROPERTY,
             },
             required: ['urls'],
           },
         } as ToolDefinition,
         {
           name: 'list_queue',
-          description: 'List all URLs currently waiting in the documentation processing queue. Shows pending documentation sources that will be processed when run_queue is called. Use this to monitor queue status, verify URLs were added correctly, or check processing backlog. Returns URLs in the order they will be processed.',
+          description: 'List the items in the documentation processing queue with their status (pending, running, done or failed), attempt count, last error, the tool that queued them and when they were added. Pending items are processed when run_queue is called. Use this to monitor queue status, verify URLs were added correctly, or find failures. Returns items in the order they will be processed.',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Only list URLs queued for this collection.',
+              },
+              status: {
+                type: 'string',
+                enum: QUEUE_STATUSES,
+                description: 'Only list items with this status.',
+              },
+            },
+            required: [],
           },
         } as ToolDefinition,
         {
           name: 'run_queue',
-          description: 'Process and index all URLs currently in the documentation queue. Each URL is processed sequentially, with proper error handling and retry logic. Progress updates are provided as processing occurs. Use this after adding new URLs to ensure all documentation is indexed and searchable. Long-running operations will process until the queue is empty or an unrecoverable error occurs.',
+          description: 'Process and index all pending URLs in the documentation queue. Each URL is processed sequentially; a failed URL is retried with exponential backoff and marked failed once its attempts run out (see retry_failed). Use this after adding new URLs to ensure all documentation is indexed and searchable. Long-running operations will process until no pending items remain.',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Only process URLs queued for this collection; other entries stay in the queue.',
+              },
+              background: BACKGROUND_PROPERTY,
+            },
+            required: [],
           },
         } as ToolDefinition,
         {
           name: 'clear_queue',
           description: 'Remove all pending URLs from the documentation processing queue. Use this to reset the queue when you want to start fresh, remove unwanted URLs, or cancel pending processing. This operation is immediate and permanent - URLs will need to be re-added if you want to process them later. Returns the number of URLs that were cleared from the queue.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Only remove URLs queued for this collection.',
+              },
+              status: {
+                type: 'string',
+                enum: QUEUE_STATUSES,
+                description: 'Only remove items with this status, e.g. "done" to prune finished items. Items that are currently running are never removed.',
+              },
+            },
+            required: [],
+          },
+        } as ToolDefinition,
+        {
+          name: 'retry_failed',
+          description: 'Move every failed item in the documentation queue back to pending with a fresh attempt count, so the next run_queue call processes them again.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Only retry failed URLs queued for this collection.',
+              },
+            },
+            required: [],
+          },
+        } as ToolDefinition,
+        {
+          name: 'create_collection',
+          description: 'Create a new, empty documentation collection. Collections keep documentation for different products, libraries or projects apart; pass the collection name to other tools to index into or search it.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to create (1-64 letters, digits, "-" or "_").',
+              },
+            },
+            required: ['collection'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'list_collections',
+          description: 'List all documentation collections with their chunk counts, vector sizes and whether they support keyword search.',
           inputSchema: {
             type: 'object',
             properties: {},
           },
         } as ToolDefinition,
-      ],
+        {
+          name: 'delete_collection',
+          description: 'Permanently delete a documentation collection and everything indexed in it. This cannot be undone.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Name of the collection to delete.',
+              },
+            },
+            required: ['collection'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'configure_collection',
+          description: 'Show or change a collection\'s search settings: the minimum semantic similarity of results, and the minimum reranker score when search_documentation reranks. Call without thresholds to show the current settings.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+              score_threshold: {
+                type: ['number', 'null'],
+                description: 'Minimum semantic similarity (0-1) of results that are not reranked. null restores the server default (SEARCH_SCORE_THRESHOLD, 0.7).',
+              },
+              rerank_threshold: {
+                type: ['number', 'null'],
+                description: 'Minimum reranker score (0-1) of reranked results. null restores the server default (RERANK_SCORE_THRESHOLD, 0).',
+              },
+            },
+            required: [],
+          },
+        } as ToolDefinition,
+        {
+          name: 'migrate_embeddings',
+          description: 'Re-embed every chunk of a collection with the currently configured embedding provider and model. Use this after changing EMBEDDING_PROVIDER, EMBEDDING_MODEL or EMBEDDING_DIMENSIONS, when tools report that a collection was built with a different model. Runs in the background: the existing collection stays in place until the re-embedded copy is complete and then replaces it atomically. Call again to check progress.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: COLLECTION_PROPERTY,
+            },
+            required: [],
+          },
+        } as ToolDefinition,
+        {
+          name: 'get_job_status',
+          description: 'Report the state of a background job started with background: true: its status (running, completed, failed or cancelled), progress, latest progress message, timings, error and, once finished, the result of the tool it ran.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: {
+                type: 'string',
+                description: 'ID of the job, as returned when it was started.',
+              },
+            },
+            required: ['job_id'],
+          },
+        } as ToolDefinition,
+        {
+          name: 'list_jobs',
+          description: 'List background jobs, newest first, with their status, progress and timings. Jobs that were running when the server stopped are resumed when it starts again: run_queue continues with the items still pending, a crawl from the pages it had still to visit, and an import with the files it had not indexed yet.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              status: {
+                type: 'string',
+                enum: JOB_STATUSES,
+                description: 'Only list jobs with this status.',
+              },
+              tool: {
+                type: 'string',
+                enum: BACKGROUND_TOOLS,
+                description: 'Only list jobs running this tool.',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of jobs to list.',
+                default: 20,
+              },
+            },
+            required: [],
+          },
+        } as ToolDefinition,
+        {
+          name: 'cancel_job',
+          description: 'Stop a running background job once the URL or file in hand is finished. Work already done is kept; a cancelled run_queue job leaves the remaining items pending.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              job_id: {
+                type: 'string',
+                description: 'ID of the job to cancel.',
+              },
+            },
+            required: ['job_id'],
+          },
+        } as ToolDefinition,
+      ]).map(withOutputFormat),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      await this.apiClient.initCollection(COLLECTION_NAME);
-
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const handler = this.handlers.get(request.params.name);
       if (!handler) {
         throw new McpError(
@@ -164,7 +805,29 @@ export class HandlerRegistry {
         );
       }
 
-      const response = await handler.handle(request.params.arguments);
+      // Checked up front, so a bad value fails before any work is done
+      getOutputFormat(request.params.arguments);
+      const args = request.params.arguments;
+      if (args?.background === true && BACKGROUND_TOOLS.includes(request.params.name)) {
+        // Bad arguments are reported now rather than as a failed job
+        await handler.validateArgs(args);
+        let response;
+        try {
+          const job = await this.jobs.start(request.params.name, args);
+          const output: JobOutput = { job };
+          response = formatOutput(args, output, `Started ${job.tool} as background job ${job.id}. ` +
+            `Call get_job_status with this ID to follow its progress, or cancel_job to stop it.\n\n${formatJob(job)}`);
+        } catch (error) {
+          response = formatError(args, `Failed to start background job: ${error}`);
+        }
+        return {
+          _meta: {},
+          ...response
+        };
+      }
+
+      const context = new ToolContext(this.server, request.params._meta?.progressToken, extra.signal);
+      const response = await handler.handle(args, context);
       return {
         _meta: {},
         ...response
@@ -0,0 +1,149 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { AddDocumentationHandler } from './add-documentation.js';
+import { ChunkCounts, FileBatchCheckpoint, FileBatchOutput, McpToolResponse } from '../types.js';
+import { queueStore } from '../queue-store.js';
+import { createPathFilter, resolveAllowedPath, toFileUri, walkDirectory } from '../local-files.js';
+import { ToolContext } from '../tool-context.js';
+import { promises as fs } from 'fs';
+
+const DIRECTORY_ACTIONS = ['index', 'queue'] as const;
+const DEFAULT_MAX_FILES = 500;
+const MAX_FILES_LIMIT = 5000;
+const MAX_REPORTED_FAILURES = 10;
+
+type DirectoryAction = typeof DIRECTORY_ACTIONS[number];
+
+export class AddDirectoryHandler extends BaseHandler {
+  async validateArgs(args: any): Promise<void> {
+    await this.parseArgs(args);
+  }
+
+  async handle(args: any, context: ToolContext = new ToolContext()): Promise<McpToolResponse> {
+    const { action, maxFiles, collection, metadata, root } = await this.parseArgs(args);
+
+    try {
+      const walk = await walkDirectory(root, { filter: createPathFilter(args.include, args.exclude), maxFiles });
+      const lines = [`Found ${walk.files.length} documentation file${walk.files.length === 1 ? '' : 's'} in ${root}`];
+      const output: FileBatchOutput = {
+        collection,
+        root,
+        files: walk.files.length,
+        truncated: walk.truncated,
+        unsupported: walk.unsupported,
+        failures: [],
+        cancelled: false,
+      };
+
+      if (action === 'queue') {
+        const { added, skipped } = await queueStore.enqueue(
+          walk.files.map(file => ({ url: toFileUri(file), collection, metadata })),
+          'add_directory'
+        );
+        output.queued = { added, alreadyQueued: skipped };
+        lines.push(`Added ${added} files to the queue for collection '${collection}'` +
+          (skipped > 0 ? ` (${skipped} already queued)` : ''));
+      } else {
+        const indexer = new AddDocumentationHandler(this.server, this.apiClient);
+        // A background job interrupted by a server restart continues with the files it had not got to
+        const resume = context.checkpoint as FileBatchCheckpoint | undefined;
+        const done = new Set(resume?.done);
+        const totals: ChunkCounts = resume
+          ? { ...resume.chunks }
+          : { chunks: 0, added: 0, updated: 0, unchanged: 0, removed: 0, embeddingRetries: 0 };
+        const failures = output.failures;
+        failures.push(...resume?.failures ?? []);
+        let attempted = done.size;
+
+        for (const file of walk.files) {
+          if (done.has(file)) {
+            continue;
+          }
+          if (context.cancelled) {
+            output.cancelled = true;
+            break;
+          }
+          attempted++;
+          try {
+            const result = await indexer.indexSource(file, collection, { metadata });
+            totals.chunks += result.chunks;
+            totals.added += result.added;
+            totals.updated += result.updated;
+            totals.unchanged += result.unchanged;
+            totals.removed += result.removed;
+            totals.embeddingRetries += result.embeddingRetries;
+          } catch (error) {
+            // Unreadable files are reported; connection and auth problems would fail every file, so stop early
+            if (error instanceof McpError && error.code !== ErrorCode.InvalidParams) {
+              throw error;
+            }
+            console.error(`Failed to index ${file}:`, error);
+            failures.push({ source: file, error: error instanceof Error ? error.message : String(error) });
+          }
+          context.advance(1, walk.files.length, `Indexed ${file} (${totals.chunks} chunks so far)`);
+          done.add(file);
+          const checkpoint: FileBatchCheckpoint = { done: [...done], chunks: { ...totals }, failures: [...failures] };
+          context.saveCheckpoint(checkpoint);
+        }
+
+        const indexed = attempted - failures.length;
+        output.indexed = indexed;
+        output.chunks = totals;
+        lines.push(`Indexed ${indexed} files into '${collection}' ` +
+          `(${totals.chunks} chunks: ${totals.added} added, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.removed} removed` +
+          (totals.embeddingRetries > 0 ? `; ${totals.embeddingRetries} embedding requests retried)` : ')'));
+        if (output.cancelled) {
+          lines.push(`Cancelled before indexing the remaining ${walk.files.length - attempted} files`);
+        }
+        if (failures.length > 0) {
+          lines.push(`${failures.length} file${failures.length === 1 ? '' : 's'} failed:`);
+          lines.push(...failures.slice(0, MAX_REPORTED_FAILURES).map(failure => `- ${failure.source}: ${failure.error}`));
+          if (failures.length > MAX_REPORTED_FAILURES) {
+            lines.push(`- ... and ${failures.length - MAX_REPORTED_FAILURES} more`);
+          }
+        }
+      }
+
+      if (walk.unsupported > 0) {
+        lines.push(`Skipped ${walk.unsupported} files that are not Markdown, HTML, reStructuredText, AsciiDoc, plain text or PDF`);
+      }
+      if (walk.truncated) {
+        lines.push(`Stopped at the ${maxFiles}-file limit; raise max_files or narrow include to cover the rest`);
+      }
+
+      return this.respond(args, output, lines.join('\n'), walk.files.length === 0);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to add directory: ${error}`);
+    }
+  }
+
+  private async parseArgs(args: any) {
+    if (!args.path || typeof args.path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'path is required');
+    }
+    const action: DirectoryAction = args.action || 'index';
+    if (!DIRECTORY_ACTIONS.includes(action)) {
+      throw new McpError(ErrorCode.InvalidParams, `action must be one of: ${DIRECTORY_ACTIONS.join(', ')}`);
+    }
+    const maxFiles = args.max_files ?? DEFAULT_MAX_FILES;
+    if (!Number.isInteger(maxFiles) || maxFiles < 1 || maxFiles > MAX_FILES_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_files must be an integer between 1 and ${MAX_FILES_LIMIT}`);
+    }
+    for (const key of ['include', 'exclude']) {
+      if (args[key] !== undefined && (!Array.isArray(args[key]) || !args[key].every((p: unknown) => typeof p === 'string'))) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an array of glob patterns`);
+      }
+    }
+
+    const collection = this.getCollectionName(args);
+    const metadata = this.getSourceMetadata(args);
+    const root = await resolveAllowedPath(args.path);
+    if (!(await fs.stat(root)).isDirectory()) {
+      throw new McpError(ErrorCode.InvalidParams, `${root} is not a directory; use add_documentation for single files`);
+    }
+    return { action, maxFiles, collection, metadata, root };
+  }
+}
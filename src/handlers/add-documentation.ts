@@ -1,90 +1,303 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseHandler } from './base-handler.js';
-import { DocumentChunk, McpToolResponse } from '../types.js';
-import * as cheerio from 'cheerio';
+import { DocumentChunk, IndexOutput, IndexResult, McpToolResponse, SourceMetadata } from '../types.js';
+import {
+  ContentBlock,
+  HEADING_PATH_SEPARATOR,
+  chunkBlocks,
+  extractAsciidocBlocks,
+  extractMarkdownBlocks,
+  extractPlainTextBlocks,
+  extractRstBlocks,
+} from '../chunking.js';
+import { LocalFileFormat, detectFormat, resolveAllowedPath, toFileUri } from '../local-files.js';
+import { PdfDocument, isPdf, readPdf } from '../pdf.js';
+import { toRawUrl } from '../git-repos.js';
+import { extractContent, findExtractionProfile } from '../extraction.js';
+import { pickSourceMetadata } from '../source-metadata.js';
+import { SPARSE_VECTOR_NAME, buildDocumentSparseVector } from '../sparse-vectors.js';
+import { notifySourceListChanged } from '../resource-registry.js';
+import { ToolContext } from '../tool-context.js';
 import crypto from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 
-const COLLECTION_NAME = 'documentation';
+const TEXT_EXTRACTORS: Record<Exclude<LocalFileFormat, 'html' | 'pdf'>, (content: string) => ContentBlock[]> = {
+  markdown: extractMarkdownBlocks,
+  rst: extractRstBlocks,
+  asciidoc: extractAsciidocBlocks,
+  text: extractPlainTextBlocks,
+};
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+export interface IndexOptions {
+  ignoreRobots?: boolean; // Fetch even if robots.txt disallows the URL
+  metadata?: SourceMetadata; // Labels stored on every chunk
+  onEmbedded?: EmbeddingProgress;
+}
+
+// Called after each embedding batch with the chunks embedded so far and the number that need embedding
+export type EmbeddingProgress = (embedded: number, total: number) => void;
+
+/**
+ * Nothing could be extracted from a source, e.g. because the page failed to
+ * render or a consent wall replaced it. The source's stored chunks are kept;
+ * only remove_documentation deletes a source.
+ */
+export class EmptyContentError extends Error {
+  constructor(url: string) {
+    super(`No content could be extracted from ${url}. Any chunks already indexed for it were kept; use remove_documentation to remove them.`);
+    this.name = 'EmptyContentError';
+  }
+}
+
+interface StoredChunk extends SourceMetadata {
+  chunkHash?: string;
+  contentHash?: string;
+}
 
 export class AddDocumentationHandler extends BaseHandler {
-  async handle(args: any): Promise<McpToolResponse> {
+  async handle(args: any, context: ToolContext = new ToolContext()): Promise<McpToolResponse> {
     if (!args.url || typeof args.url !== 'string') {
       throw new McpError(ErrorCode.InvalidParams, 'URL is required');
     }
 
+    const collection = this.getCollectionName(args);
+    const targets = this.getVersionedTargets(args);
+
     try {
-      const chunks = await this.fetchAndProcessUrl(args.url);
-      
-      // Batch process chunks for better performance
-      const batchSize = 100;
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, i + batchSize);
-        const points = await Promise.all(
-          batch.map(async (chunk) => {
-            const embedding = await this.apiClient.getEmbeddings(chunk.text);
-            return {
-              id: this.generatePointId(),
-              vector: embedding,
-              payload: {
-                ...chunk,
-                _type: 'DocumentChunk' as const,
-              } as Record<string, unknown>,
-            };
-          })
-        );
+      const lines: string[] = [];
+      const results: IndexResult[] = [];
+      let cancelled = false;
+      for (const target of targets) {
+        if (context.cancelled) {
+          cancelled = true;
+          lines.push(`Cancelled before indexing ${targets.length - results.length} of ${targets.length} URLs`);
+          break;
+        }
+        // Each URL counts as one unit of progress, split over its embedding batches
+        let done = 0;
+        const result = await this.indexSource(target.url, collection, {
+          ignoreRobots: args.ignore_robots === true,
+          metadata: target.metadata,
+          onEmbedded: (embedded, total) => {
+            context.advance(embedded / total - done, targets.length, `Embedded ${embedded} of ${total} chunks of ${target.url}`);
+            done = embedded / total;
+          },
+        });
+        context.advance(1 - done, targets.length, `Indexed ${target.url}`);
+        results.push(result);
+        const summary = `${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged, ${result.removed} removed` +
+          (result.embeddingRetries > 0 ? `; ${result.embeddingRetries} embedding requests retried` : '');
+        lines.push(result.unchanged === result.chunks && result.removed === 0
+          ? `Documentation from ${target.url} is unchanged in '${collection}' (${result.chunks} chunks already indexed)`
+          : `Successfully indexed documentation from ${target.url} into '${collection}' (${result.chunks} chunks: ${summary})`);
+      }
 
-        try {
-          await this.apiClient.qdrantClient.upsert(COLLECTION_NAME, {
+      return this.respond<IndexOutput>(args, { collection, sources: results, cancelled }, lines.join('\n'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to add documentation: ${error}`);
+    }
+  }
+
+  /**
+   * Fetches a URL or local file and brings its stored chunks up to date.
+   * Local files are stored under their file:// URI.
+   * Used directly by other handlers (e.g. run_queue) that need the counts.
+   */
+  async indexSource(source: string, collection: string, options: IndexOptions = {}): Promise<IndexResult> {
+    const isUrl = source.startsWith('http://') || source.startsWith('https://');
+    const url = isUrl ? source : toFileUri(await resolveAllowedPath(source));
+    const chunks = await this.fetchAndProcessUrl(url, options.ignoreRobots);
+    return this.storeChunks(url, chunks, collection, options.metadata, options.onEmbedded);
+  }
+
+  // Indexes HTML that the caller already rendered (e.g. the crawler), avoiding a second page load
+  async indexHtml(url: string, html: string, collection: string, metadata?: SourceMetadata): Promise<IndexResult> {
+    const { title, blocks, language } = await this.parseHtml(html, url, url);
+    return this.storeChunks(url, this.toDocumentChunks(url, title, blocks, language), collection, metadata);
+  }
+
+  // Indexes Markdown the caller already read (e.g. from a repository clone) under the given URL
+  async indexMarkdown(url: string, markdown: string, fallbackTitle: string, collection: string, metadata?: SourceMetadata): Promise<IndexResult> {
+    const { title, blocks } = this.parseMarkdown(markdown, fallbackTitle);
+    return this.storeChunks(url, this.toDocumentChunks(url, title, blocks), collection, metadata);
+  }
+
+  /**
+   * Diffs freshly produced chunks against what is stored for the same URL.
+   * Unchanged chunks are not re-embedded, changed or new ones are upserted under
+   * deterministic IDs, and chunks beyond the new end of the page are deleted.
+   * Labels given in `metadata` replace the stored ones field by field; labels
+   * not given carry over from the stored chunks, e.g. ones set with tag_source.
+   * Throws EmptyContentError instead of emptying a source when there are no chunks.
+   */
+  async storeChunks(
+    url: string,
+    chunks: DocumentChunk[],
+    collection: string,
+    metadata?: SourceMetadata,
+    onEmbedded?: EmbeddingProgress
+  ): Promise<IndexResult> {
+    if (chunks.length === 0) {
+      throw new EmptyContentError(url);
+    }
+    const result: IndexResult = {
+      url, collection, chunks: chunks.length, added: 0, updated: 0, unchanged: 0, removed: 0, embeddingRetries: 0,
+    };
+    const usage = { retries: 0 };
+    const contentHash = this.hash(chunks.map(chunk => this.chunkHash(chunk)).join('\n'));
+
+    try {
+      await this.apiClient.initCollection(collection);
+      const stored = await this.getStoredChunks(url, collection);
+      const pageUnchanged = stored.size === chunks.length &&
+        Array.from(stored.values()).every(point => point.contentHash === contentHash);
+      const labels: SourceMetadata = { ...pickSourceMetadata(stored.values().next().value), ...metadata };
+      if (labels.metadata) {
+        await this.apiClient.ensurePayloadIndexes(collection, Object.keys(labels.metadata));
+      }
+
+      if (pageUnchanged) {
+        result.unchanged = chunks.length;
+        if (metadata) {
+          await this.apiClient.qdrantClient.setPayload(collection, {
+            points: Array.from(stored.keys()),
+            payload: { ...metadata },
             wait: true,
-            points,
           });
-        } catch (error) {
-          if (error instanceof Error) {
-            if (error.message.includes('unauthorized')) {
-              throw new McpError(
-                ErrorCode.InvalidRequest,
-                'Failed to authenticate with Qdrant cloud while adding documents'
-              );
-            } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ETIMEDOUT')) {
-              throw new McpError(
-                ErrorCode.InternalError,
-                'Connection to Qdrant cloud failed while adding documents'
-              );
-            }
+        }
+        return result;
+      }
+
+      const pending: { id: string; index: number; chunk: DocumentChunk; chunkHash: string }[] = [];
+      const unchangedIds: string[] = [];
+
+      chunks.forEach((chunk, index) => {
+        const id = this.generatePointId(url, index);
+        const chunkHash = this.chunkHash(chunk);
+        const previous = stored.get(id);
+
+        if (previous?.chunkHash === chunkHash) {
+          unchangedIds.push(id);
+          result.unchanged++;
+        } else {
+          pending.push({ id, index, chunk, chunkHash });
+          if (previous) {
+            result.updated++;
+          } else {
+            result.added++;
           }
-          throw error;
         }
+      });
+
+      const withKeywordVectors = await this.apiClient.hasSparseVectors(collection);
+
+      // Embed and upsert in batches; the provider splits each batch further to fit its request limits
+      for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await this.apiClient.getEmbeddingsBatch(batch.map(({ chunk }) => chunk.text), usage);
+        result.embeddingRetries = usage.retries;
+        const points = batch.map(({ id, index, chunk, chunkHash }, position) => {
+          const embedding = embeddings[position];
+          return {
+            id,
+            // The unnamed ('') vector is the collection's default dense vector
+            vector: withKeywordVectors
+              ? { '': embedding, [SPARSE_VECTOR_NAME]: buildDocumentSparseVector(chunk.text) }
+              : embedding,
+            payload: {
+              ...chunk,
+              ...labels,
+              chunkIndex: index,
+              chunkHash,
+              contentHash,
+              _type: 'DocumentChunk' as const,
+            } as Record<string, unknown>,
+          };
+        });
+
+        await this.apiClient.qdrantClient.upsert(collection, {
+          wait: true,
+          points,
+        });
+        onEmbedded?.(i + batch.length, pending.length);
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully added documentation from ${args.url} (${chunks.length} chunks processed in ${Math.ceil(chunks.length / batchSize)} batches)`,
-          },
-        ],
-      };
+      // Unchanged chunks keep their vectors but now belong to the new page version
+      if (unchangedIds.length > 0) {
+        await this.apiClient.qdrantClient.setPayload(collection, {
+          points: unchangedIds,
+          payload: { ...metadata, contentHash, timestamp: new Date().toISOString() },
+          wait: true,
+        });
+      }
+
+      // Drop chunks past the new end of the page and points from older, randomly-keyed indexing runs
+      const currentIds = new Set(chunks.map((_, index) => this.generatePointId(url, index)));
+      const staleIds = Array.from(stored.keys()).filter(id => !currentIds.has(id));
+      if (staleIds.length > 0) {
+        await this.apiClient.qdrantClient.delete(collection, {
+          points: staleIds,
+          wait: true,
+        });
+        result.removed = staleIds.length;
+      }
+
+      // A new URL changes the resource list
+      if (stored.size === 0) {
+        notifySourceListChanged(this.server);
+      }
+      return result;
     } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
+      if (error instanceof Error) {
+        if (error.message.includes('unauthorized')) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            'Failed to authenticate with Qdrant cloud while adding documents'
+          );
+        } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ETIMEDOUT')) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            'Connection to Qdrant cloud failed while adding documents'
+          );
+        }
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to add documentation: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      throw error;
     }
   }
 
-  private async fetchAndProcessUrl(source: string): Promise<DocumentChunk[]> {
+  private async getStoredChunks(url: string, collection: string): Promise<Map<string, StoredChunk>> {
+    const stored = new Map<string, StoredChunk>();
+    const pageSize = 100;
+    let offset: string | number | null | undefined = null;
+
+    do {
+      const scroll = await this.apiClient.qdrantClient.scroll(collection, {
+        filter: { must: [{ key: 'url', match: { value: url } }] },
+        with_payload: ['chunkHash', 'contentHash', 'tags', 'version', 'product', 'metadata'],
+        with_vector: false,
+        limit: pageSize,
+        offset: offset ?? undefined,
+      });
+      for (const point of scroll.points) {
+        stored.set(String(point.id), (point.payload || {}) as StoredChunk);
+      }
+      offset = scroll.next_page_offset as string | number | null | undefined;
+    } while (offset !== null && offset !== undefined);
+
+    return stored;
+  }
+
+  private async fetchAndProcessUrl(source: string, ignoreRobots: boolean = false): Promise<DocumentChunk[]> {
     let title = source;
-    let mainContent = '';
+    let blocks: ContentBlock[] = [];
+    let language: string | undefined; // Declared by HTML pages only
+    let pdf: PdfDocument | undefined; // PDFs are chunked page by page
     const isUrl = source.startsWith('http://') || source.startsWith('https://');
 
     try {
@@ -93,11 +306,37 @@ export class AddDocumentationHandler extends BaseHandler {
         // --- Handle URL ---
         console.error(`Processing source as URL: ${source}`);
         const urlObject = new URL(source); // Safe to call again now
-        const isPlainText = urlObject.pathname.endsWith('.txt');
+        const format = detectFormat(urlObject.pathname);
+        const isPlainText = format === 'text';
+        const isPdfUrl = format === 'pdf';
+        const isMarkupUrl = format === 'markdown' || format === 'rst' || format === 'asciidoc';
+        // GitHub and GitLab file pages are fetched as raw text instead of through their UI
+        const fetchUrl = (isPlainText || isMarkupUrl) ? toRawUrl(urlObject) ?? source : source;
+        await this.apiClient.robots.acquire(fetchUrl, ignoreRobots);
 
-        if (isPlainText) {
-          console.error(`Fetching plain text URL: ${source}`);
-          const response = await fetch(source);
+        if (isPdfUrl) {
+          console.error(`Fetching PDF URL: ${source}`);
+          pdf = await this.fetchPdf(source);
+          title = pdf.title || decodeURIComponent(urlObject.pathname.split('/').pop() || '') || source;
+          console.error(`Successfully read PDF (${pdf.pages.length} pages). Title: ${title}`);
+        } else if (isMarkupUrl) {
+          console.error(`Fetching ${format} URL: ${fetchUrl}`);
+          const response = await fetch(fetchUrl);
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+          const mainContent = await response.text();
+          const fileName = decodeURIComponent(urlObject.pathname.split('/').pop() || '') || source;
+          if (format === 'markdown') {
+            ({ title, blocks } = this.parseMarkdown(mainContent, fileName));
+          } else {
+            title = fileName;
+            blocks = TEXT_EXTRACTORS[format](mainContent);
+          }
+          console.error(`Successfully fetched ${format} content (${mainContent.length} chars). Title: ${title}`);
+        } else if (isPlainText) {
+          console.error(`Fetching plain text URL: ${fetchUrl}`);
+          const response = await fetch(fetchUrl);
           if (!response.ok) {
             throw new Error(`HTTP error! status: ${response.status}`);
           }
@@ -108,58 +347,70 @@ export class AddDocumentationHandler extends BaseHandler {
           } else {
                title = urlObject.pathname.split('/').pop() || source;
           }
-          mainContent = await response.text();
+          const mainContent = await response.text();
+          blocks = extractPlainTextBlocks(mainContent);
           console.error(`Successfully fetched plain text content (${mainContent.length} chars). Title: ${title}`);
         } else {
           console.error(`Fetching non-plain text URL with Playwright: ${source}`);
           await this.apiClient.initBrowser();
           const page = await this.apiClient.browser.newPage();
+          let isDownload = false;
           try {
-            await page.goto(source, { waitUntil: 'networkidle', timeout: 60000 });
-            const content = await page.content();
-            const $ = cheerio.load(content);
-            $('script, style, noscript').remove();
-            title = $('title').text() || source;
-            mainContent = $('main, article, .content, .documentation, body').first().text();
-            console.error(`Successfully fetched HTML content (${mainContent.length} chars). Title: ${title}`);
+            try {
+              await page.goto(source, { waitUntil: 'networkidle', timeout: 60000 });
+            } catch (error) {
+              // Chromium downloads PDFs instead of rendering them
+              if (!(error instanceof Error && error.message.includes('Download is starting'))) {
+                throw error;
+              }
+              isDownload = true;
+            }
+            if (!isDownload) {
+              const content = await page.content();
+              ({ title, blocks, language } = await this.parseHtml(content, source, source));
+              console.error(`Successfully fetched HTML content (${blocks.length} blocks). Title: ${title}`);
+            }
           } finally {
             await page.close();
           }
+          if (isDownload) {
+            pdf = await this.fetchPdf(source);
+            title = pdf.title || source;
+            console.error(`Successfully read PDF download (${pdf.pages.length} pages). Title: ${title}`);
+          }
         }
       } else {
-        // --- Handle Local File Path ---
-        console.error(`Processing source as local file path: ${source}`);
-        const resolvedPath = path.resolve(source); // Resolve relative to CWD
-        console.error(`Resolved local file path to: ${resolvedPath}`);
-    // Security check: Ensure the resolved path is within the workspace
-    const workspaceRoot = path.resolve('.'); // Assuming server runs from project root
-    const relativePath = path.relative(workspaceRoot, resolvedPath);
-    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
-        throw new McpError(ErrorCode.InvalidParams, `Access denied: Path is outside the allowed workspace directory.`);
-    }
+        // --- Handle Local File (file:// URI) ---
+        const filePath = await resolveAllowedPath(source);
+        console.error(`Processing source as local file: ${filePath}`);
         try {
-            await fs.access(resolvedPath, fs.constants.R_OK);
-            mainContent = await fs.readFile(resolvedPath, 'utf-8');
-            title = path.basename(resolvedPath);
-            console.error(`Successfully read local file content (${mainContent.length} chars). Title: ${title}`);
+            const format = detectFormat(filePath) ?? 'text';
+            title = path.basename(filePath);
+            if (format === 'pdf') {
+              pdf = await this.readLocalPdf(filePath);
+              title = pdf.title || title;
+              console.error(`Successfully read local PDF (${pdf.pages.length} pages). Title: ${title}`);
+              return this.pdfToDocumentChunks(source, title, pdf);
+            }
+            const mainContent = await fs.readFile(filePath, 'utf-8');
+            if (format === 'html') {
+              ({ title, blocks, language } = await this.parseHtml(mainContent, source, title));
+            } else if (format === 'markdown') {
+              ({ title, blocks } = this.parseMarkdown(mainContent, title));
+            } else {
+              blocks = TEXT_EXTRACTORS[format](mainContent);
+            }
+            console.error(`Successfully read local ${format} file (${mainContent.length} chars). Title: ${title}`);
         } catch (fileError: any) {
-            if (fileError.code === 'ENOENT') { throw new McpError(ErrorCode.InvalidParams, `Local file not found: ${resolvedPath}`); }
-            else if (fileError.code === 'EACCES') { throw new McpError(ErrorCode.InvalidParams, `Permission denied reading local file: ${resolvedPath}`); }
-            else { throw new McpError(ErrorCode.InternalError, `Error reading local file ${resolvedPath}: ${fileError.message}`); }
+            if (fileError instanceof McpError) { throw fileError; }
+            else if (fileError.code === 'ENOENT') { throw new McpError(ErrorCode.InvalidParams, `Local file not found: ${filePath}`); }
+            else if (fileError.code === 'EACCES') { throw new McpError(ErrorCode.InvalidParams, `Permission denied reading local file: ${filePath}`); }
+            else if (fileError.code === 'EISDIR') { throw new McpError(ErrorCode.InvalidParams, `${filePath} is a directory; use add_directory to index it`); }
+            else { throw new McpError(ErrorCode.InternalError, `Error reading local file ${filePath}: ${fileError.message}`); }
         }
       }
 
-      // --- Common Processing ---
-      const chunks = this.chunkText(mainContent, 1000);
-      console.error(`Split content into ${chunks.length} chunks.`);
-
-      return chunks.map(chunk => ({
-        text: chunk,
-        url: source, // Use original source string
-        title,
-        timestamp: new Date().toISOString(),
-      }));
-
+      return pdf ? this.pdfToDocumentChunks(source, title, pdf) : this.toDocumentChunks(source, title, blocks, language);
     } catch (error) {
       // Catch specific McpErrors and rethrow, wrap others
       if (error instanceof McpError) {
@@ -174,29 +425,80 @@ export class AddDocumentationHandler extends BaseHandler {
     }
   }
 
-  private chunkText(text: string, maxChunkSize: number): string[] {
-    const words = text.split(/\s+/);
-    const chunks: string[] = [];
-    let currentChunk: string[] = [];
-    
-    for (const word of words) {
-      currentChunk.push(word);
-      const currentLength = currentChunk.join(' ').length;
-      
-      if (currentLength >= maxChunkSize) {
-        chunks.push(currentChunk.join(' '));
-        currentChunk = [];
-      }
+  private async fetchPdf(url: string): Promise<PdfDocument> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
     }
-    
-    if (currentChunk.length > 0) {
-      chunks.push(currentChunk.join(' '));
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (!isPdf(data)) {
+      throw new Error(`${url} is a download of type ${response.headers.get('content-type') || 'unknown'}, not a web page or PDF`);
     }
-    
-    return chunks;
+    return readPdf(data);
+  }
+
+  // Parse failures are reported against the file rather than as server errors
+  private async readLocalPdf(filePath: string): Promise<PdfDocument> {
+    const data = new Uint8Array(await fs.readFile(filePath));
+    try {
+      if (!isPdf(data)) {
+        throw new Error('not a PDF file');
+      }
+      return await readPdf(data);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot read PDF ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Uses the extraction profile configured for the page's domain, if any
+  private async parseHtml(html: string, url: string, fallbackTitle: string): Promise<{ title: string; blocks: ContentBlock[]; language?: string }> {
+    const { title, blocks, strategy, language } = extractContent(html, fallbackTitle, await findExtractionProfile(url));
+    console.error(`Extracted ${url} using ${strategy}`);
+    return { title, blocks, language };
+  }
+
+  // Titled by the first top-level heading, if the document has one
+  private parseMarkdown(markdown: string, fallbackTitle: string): { title: string; blocks: ContentBlock[] } {
+    const blocks = extractMarkdownBlocks(markdown);
+    const heading = blocks.find(block => block.type === 'heading' && block.level === 1);
+    return { title: heading?.text || fallbackTitle, blocks };
+  }
+
+  private toDocumentChunks(source: string, title: string, blocks: ContentBlock[], language?: string): DocumentChunk[] {
+    const chunks = chunkBlocks(blocks);
+    console.error(`Split content into ${chunks.length} chunks.`);
+
+    return chunks.map(chunk => ({
+      text: chunk.text,
+      url: source, // Use original source string
+      title,
+      headingPath: chunk.headingPath.join(HEADING_PATH_SEPARATOR),
+      ...(chunk.line !== undefined ? { line: chunk.line } : {}),
+      ...(language ? { language } : {}),
+      timestamp: new Date().toISOString(),
+    }));
+  }
+
+  // Chunks never span pages, so each page's chunks carry its page number
+  private pdfToDocumentChunks(source: string, title: string, pdf: PdfDocument): DocumentChunk[] {
+    return pdf.pages.flatMap((text, index) =>
+      this.toDocumentChunks(source, title, extractPlainTextBlocks(text)).map(chunk => ({ ...chunk, page: index + 1 }))
+    );
+  }
+
+  private chunkHash(chunk: DocumentChunk): string {
+    const page = chunk.page !== undefined ? `page ${chunk.page}\n` : '';
+    const line = chunk.line !== undefined ? `line ${chunk.line}\n` : '';
+    return this.hash(`${page}${line}${chunk.headingPath || ''}\n${chunk.text}`);
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
   }
 
-  private generatePointId(): string {
-    return crypto.randomBytes(16).toString('hex');
+  // Deterministic UUID derived from URL + chunk index, so re-indexing overwrites in place
+  private generatePointId(url: string, chunkIndex: number): string {
+    const hex = this.hash(`${url}#${chunkIndex}`);
+    return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20, 32)}`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { AddDocumentationHandler } from './add-documentation.js';
+import { ApiIndexOutput, ApiIndexResult, DocumentChunk, McpToolResponse, SourceMetadata } from '../types.js';
+import { HEADING_PATH_SEPARATOR } from '../chunking.js';
+import { ApiSpec, extractOperations, parseSpecDocument } from '../openapi.js';
+import { resolveAllowedPath, toFileUri } from '../local-files.js';
+import { toRawUrl } from '../git-repos.js';
+import { promises as fs } from 'fs';
+
+export class AddOpenApiHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!args.url || typeof args.url !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'url is required');
+    }
+    const collection = this.getCollectionName(args);
+    const targets = this.getVersionedTargets(args);
+
+    try {
+      const lines: string[] = [];
+      const results: ApiIndexResult[] = [];
+      for (const target of targets) {
+        const result = await this.indexSpec(target.url, collection, args.ignore_robots === true, target.metadata);
+        const format = result.specVersion.startsWith('2') ? 'Swagger' : 'OpenAPI';
+        lines.push(`Indexed ${result.operations} operations of ${result.title} (${format} ${result.specVersion}) ` +
+          `from ${target.url} into '${collection}' (${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged, ${result.removed} removed` +
+          (result.embeddingRetries > 0 ? `; ${result.embeddingRetries} embedding requests retried)` : ')'));
+        results.push(result);
+      }
+      return this.respond<ApiIndexOutput>(args, { collection, sources: results }, lines.join('\n'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to add OpenAPI document: ${error}`);
+    }
+  }
+
+  // Indexes one document
+  private async indexSpec(source: string, collection: string, ignoreRobots: boolean, metadata?: SourceMetadata): Promise<ApiIndexResult> {
+    const isUrl = source.startsWith('http://') || source.startsWith('https://');
+    const localPath = isUrl ? undefined : await resolveAllowedPath(source);
+    const url = localPath ? toFileUri(localPath) : source;
+
+    const content = localPath
+      ? await fs.readFile(localPath, 'utf-8')
+      : await this.fetchSpec(source, ignoreRobots);
+    let spec: ApiSpec;
+    try {
+      spec = extractOperations(parseSpecDocument(content));
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot read ${source} as an OpenAPI document: ${error instanceof Error ? error.message : error}`);
+    }
+    if (spec.operations.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `${source} defines no operations under "paths"`);
+    }
+
+    const title = spec.version ? `${spec.title} (${spec.version})` : spec.title;
+    const timestamp = new Date().toISOString();
+    const chunks: DocumentChunk[] = spec.operations.map(operation => ({
+      text: operation.text,
+      url,
+      title,
+      // Operations are grouped by their first tag, as API reference pages usually are
+      headingPath: [...operation.tags.slice(0, 1), `${operation.method} ${operation.path}`].join(HEADING_PATH_SEPARATOR),
+      method: operation.method,
+      path: operation.path,
+      ...(operation.operationId ? { operationId: operation.operationId } : {}),
+      timestamp,
+    }));
+
+    const indexer = new AddDocumentationHandler(this.server, this.apiClient);
+    const result = await indexer.storeChunks(url, chunks, collection, metadata);
+    return { ...result, title, specVersion: spec.specVersion, operations: spec.operations.length };
+  }
+
+  private async fetchSpec(source: string, ignoreRobots: boolean): Promise<string> {
+    // Specs kept in GitHub or GitLab repositories are fetched without the file page around them
+    const fetchUrl = toRawUrl(new URL(source)) ?? source;
+    await this.apiClient.robots.acquire(fetchUrl, ignoreRobots);
+    const response = await fetch(fetchUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.text();
+  }
+}
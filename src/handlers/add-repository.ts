@@ -0,0 +1,169 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { AddDocumentationHandler } from './add-documentation.js';
+import { ChunkCounts, FileBatchCheckpoint, FileBatchOutput, McpToolResponse, SourceFailure } from '../types.js';
+import { ClonedRepository, cloneRepository, isRemoteRepository, removeClone, toFileWebUrl } from '../git-repos.js';
+import { createPathFilter, detectFormat, resolveAllowedPath, toFileUri, walkDirectory } from '../local-files.js';
+import { ToolContext } from '../tool-context.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_MAX_FILES = 500;
+const MAX_FILES_LIMIT = 5000;
+const MAX_REPORTED_FAILURES = 10;
+
+export class AddRepositoryHandler extends BaseHandler {
+  async validateArgs(args: any): Promise<void> {
+    this.parseArgs(args);
+  }
+
+  async handle(args: any, context: ToolContext = new ToolContext()): Promise<McpToolResponse> {
+    const { maxFiles, collection, metadata, remote } = this.parseArgs(args);
+
+    let clone: ClonedRepository | undefined;
+    try {
+      let root: string;
+      if (remote) {
+        console.error(`Cloning ${args.repository}${args.ref ? ` (${args.ref})` : ''}...`);
+        clone = await cloneRepository(args.repository, args.ref);
+        root = clone.dir;
+      } else {
+        root = await resolveAllowedPath(args.repository);
+      }
+
+      const docsDir = path.resolve(root, args.path || '.');
+      const relativeDocsDir = path.relative(root, docsDir);
+      if (relativeDocsDir.startsWith('..') || path.isAbsolute(relativeDocsDir)) {
+        throw new McpError(ErrorCode.InvalidParams, 'path must be a folder inside the repository');
+      }
+      const docsStat = await fs.stat(remote ? docsDir : await resolveAllowedPath(docsDir)).catch(() => undefined);
+      if (!docsStat?.isDirectory()) {
+        throw new McpError(ErrorCode.InvalidParams, `Folder '${args.path}' does not exist in the repository`);
+      }
+
+      const filter = createPathFilter(args.include, args.exclude);
+      const walk = await walkDirectory(docsDir, {
+        filter: relativePath => detectFormat(relativePath) === 'markdown' && filter(relativePath),
+        maxFiles,
+      });
+
+      const indexer = new AddDocumentationHandler(this.server, this.apiClient);
+      // A background job interrupted by a server restart clones again and continues with the files it had not got to
+      const resume = context.checkpoint as FileBatchCheckpoint | undefined;
+      const done = new Set(resume?.done);
+      const totals: ChunkCounts = resume
+        ? { ...resume.chunks }
+        : { chunks: 0, added: 0, updated: 0, unchanged: 0, removed: 0, embeddingRetries: 0 };
+      const failures: SourceFailure[] = [...resume?.failures ?? []];
+      let attempted = done.size;
+      let cancelled = false;
+
+      for (const file of walk.files) {
+        const repositoryPath = path.relative(root, file).split(path.sep).join('/');
+        if (done.has(repositoryPath)) {
+          continue;
+        }
+        if (context.cancelled) {
+          cancelled = true;
+          break;
+        }
+        attempted++;
+        // Remote files link to the repository's web UI, files of a local clone to the file itself
+        const url = clone ? toFileWebUrl(clone.webUrl, clone.ref, repositoryPath) : toFileUri(file);
+        try {
+          const markdown = await fs.readFile(file, 'utf-8');
+          const result = await indexer.indexMarkdown(url, markdown, path.basename(file), collection, metadata);
+          totals.chunks += result.chunks;
+          totals.added += result.added;
+          totals.updated += result.updated;
+          totals.unchanged += result.unchanged;
+          totals.removed += result.removed;
+          totals.embeddingRetries += result.embeddingRetries;
+        } catch (error) {
+          // Connection and auth problems would fail every file, so stop early
+          if (error instanceof McpError) {
+            throw error;
+          }
+          console.error(`Failed to index ${repositoryPath}:`, error);
+          failures.push({ source: repositoryPath, error: error instanceof Error ? error.message : String(error) });
+        }
+        context.advance(1, walk.files.length, `Indexed ${repositoryPath} (${totals.chunks} chunks so far)`);
+        done.add(repositoryPath);
+        const checkpoint: FileBatchCheckpoint = { done: [...done], chunks: { ...totals }, failures: [...failures] };
+        context.saveCheckpoint(checkpoint);
+      }
+
+      const source = remote ? `${args.repository} (${clone!.ref})` : root;
+      const lines = [
+        `Found ${walk.files.length} Markdown file${walk.files.length === 1 ? '' : 's'} in ${source}` +
+          (relativeDocsDir ? ` under ${relativeDocsDir.split(path.sep).join('/')}/` : ''),
+        `Indexed ${attempted - failures.length} files into '${collection}' ` +
+          `(${totals.chunks} chunks: ${totals.added} added, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.removed} removed` +
+          (totals.embeddingRetries > 0 ? `; ${totals.embeddingRetries} embedding requests retried)` : ')'),
+      ];
+      if (walk.truncated) {
+        lines.push(`Stopped at the ${maxFiles}-file limit; raise max_files or narrow include to cover the rest`);
+      }
+      if (cancelled) {
+        lines.push(`Cancelled before indexing the remaining ${walk.files.length - attempted} files`);
+      }
+      if (failures.length > 0) {
+        lines.push(`${failures.length} file${failures.length === 1 ? '' : 's'} failed:`);
+        lines.push(...failures.slice(0, MAX_REPORTED_FAILURES).map(failure => `- ${failure.source}: ${failure.error}`));
+        if (failures.length > MAX_REPORTED_FAILURES) {
+          lines.push(`- ... and ${failures.length - MAX_REPORTED_FAILURES} more`);
+        }
+      }
+
+      const output: FileBatchOutput = {
+        collection,
+        root: source,
+        files: walk.files.length,
+        truncated: walk.truncated,
+        indexed: attempted - failures.length,
+        chunks: totals,
+        failures,
+        cancelled,
+      };
+      return this.respond(args, output, lines.join('\n'), walk.files.length === 0);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to add repository: ${error}`);
+    } finally {
+      if (clone) {
+        await removeClone(clone.dir);
+      }
+    }
+  }
+
+  private parseArgs(args: any) {
+    if (!args.repository || typeof args.repository !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'repository is required');
+    }
+    if (args.path !== undefined && typeof args.path !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'path must be a string');
+    }
+    if (args.ref !== undefined && (typeof args.ref !== 'string' || !args.ref)) {
+      throw new McpError(ErrorCode.InvalidParams, 'ref must be a branch or tag name');
+    }
+    const maxFiles = args.max_files ?? DEFAULT_MAX_FILES;
+    if (!Number.isInteger(maxFiles) || maxFiles < 1 || maxFiles > MAX_FILES_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_files must be an integer between 1 and ${MAX_FILES_LIMIT}`);
+    }
+    for (const key of ['include', 'exclude']) {
+      if (args[key] !== undefined && (!Array.isArray(args[key]) || !args[key].every((p: unknown) => typeof p === 'string'))) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an array of glob patterns`);
+      }
+    }
+
+    const collection = this.getCollectionName(args);
+    const metadata = this.getSourceMetadata(args);
+    const remote = isRemoteRepository(args.repository);
+    if (!remote && args.ref !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'ref only applies to remote repositories; check out the ref in the local clone instead');
+    }
+    return { maxFiles, collection, metadata, remote };
+  }
+}
@@ -0,0 +1,93 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { McpToolResponse, SitemapOutput } from '../types.js';
+import { queueStore } from '../queue-store.js';
+import { discoverSitemaps, readSitemaps } from '../sitemap.js';
+
+const DEFAULT_MAX_URLS = 1000;
+const MAX_URLS_LIMIT = 50000; // The sitemap protocol's own per-file limit
+
+export class AddSitemapHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!args.url || typeof args.url !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'URL is required');
+    }
+    let url: URL;
+    try {
+      url = new URL(args.url);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid URL: ${args.url}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new McpError(ErrorCode.InvalidParams, 'Only http and https sitemaps are supported');
+    }
+
+    const collection = this.getCollectionName(args);
+    const metadata = this.getSourceMetadata(args);
+    const filter = this.getUrlFilter(args);
+    const ignoreRobots = args.ignore_robots === true;
+    const maxUrls = args.max_urls ?? DEFAULT_MAX_URLS;
+    if (!Number.isInteger(maxUrls) || maxUrls < 1 || maxUrls > MAX_URLS_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_urls must be an integer between 1 and ${MAX_URLS_LIMIT}`);
+    }
+    let modifiedSince: Date | undefined;
+    if (args.modified_since !== undefined) {
+      const time = typeof args.modified_since === 'string' ? Date.parse(args.modified_since) : NaN;
+      if (Number.isNaN(time)) {
+        throw new McpError(ErrorCode.InvalidParams, 'modified_since must be an ISO 8601 date, e.g. 2024-01-31');
+      }
+      modifiedSince = new Date(time);
+    }
+
+    try {
+      const robots = this.apiClient.robots;
+      const sitemapUrls = await discoverSitemaps(url.href, robots);
+      const sitemap = await readSitemaps(sitemapUrls, { robots, ignoreRobots, modifiedSince, filter, maxUrls });
+      const matched = sitemap.entries.map(entry => entry.url);
+
+      const output: SitemapOutput = {
+        collection,
+        sitemaps: sitemapUrls,
+        sitemapsRead: sitemap.sitemapsRead,
+        urls: sitemap.urls,
+        matched: matched.length,
+        blocked: sitemap.blocked,
+        truncated: sitemap.truncatedBy !== undefined,
+        truncatedBy: sitemap.truncatedBy,
+        failures: sitemap.failures.map(failure => ({ source: failure.url, error: failure.error })),
+      };
+      const lines = [
+        `Read ${sitemap.sitemapsRead} sitemap${sitemap.sitemapsRead === 1 ? '' : 's'} from ${sitemapUrls.join(', ')}: ` +
+          `${sitemap.urls} URLs${modifiedSince ? ` modified since ${modifiedSince.toISOString()}` : ''}, ${matched.length} matching the filters`,
+      ];
+      if (sitemap.blocked > 0) {
+        lines.push(`Skipped ${sitemap.blocked} URLs disallowed by robots.txt (pass ignore_robots: true to include them)`);
+      }
+      if (sitemap.truncatedBy === 'max_urls') {
+        lines.push(`Stopped after ${maxUrls} matching URLs; raise max_urls to queue the rest`);
+      } else if (sitemap.truncatedBy === 'max_sitemaps') {
+        lines.push('Stopped at the maximum number of sitemap files; the URLs of the sitemaps left unread were not filtered or queued');
+      }
+      for (const failure of sitemap.failures) {
+        lines.push(`Failed to read ${failure.url}: ${failure.error}`);
+      }
+
+      if (matched.length > 0) {
+        const { added, skipped } = await queueStore.enqueue(
+          matched.map(url => ({ url, collection, ignoreRobots: ignoreRobots || undefined, metadata })),
+          'add_sitemap'
+        );
+        output.queued = { added, alreadyQueued: skipped };
+        lines.push(`Added ${added} URLs to the queue for collection '${collection}'` +
+          (skipped > 0 ? ` (${skipped} already queued)` : ''));
+      }
+
+      return this.respond(args, output, lines.join('\n'), sitemap.sitemapsRead === 0);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to read sitemap: ${error}`);
+    }
+  }
+}
@@ -1,6 +1,17 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ApiClient } from '../api-client.js';
-import { McpToolResponse } from '../types.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { McpToolResponse, SourceMetadata } from '../types.js';
+import { createUrlFilter } from '../url-utils.js';
+import { parseSourceMetadata } from '../source-metadata.js';
+import { VERSION_PLACEHOLDER, expandVersionedUrl } from '../versions.js';
+import { formatError, formatOutput } from '../output.js';
+import { ToolContext } from '../tool-context.js';
+
+export interface VersionedTarget {
+  url: string;
+  metadata?: SourceMetadata;
+}
 
 export abstract class BaseHandler {
   protected server: Server;
@@ -11,5 +22,61 @@ export abstract class BaseHandler {
     this.apiClient = apiClient;
   }
 
-  protected abstract handle(args: any): Promise<McpToolResponse>;
+  protected abstract handle(args: any, context?: ToolContext): Promise<McpToolResponse>;
+
+  // Checks a call's arguments without doing any work; run before a background job is started
+  async validateArgs(args: any): Promise<void> {
+    this.getCollectionName(args);
+  }
+
+  // `text` for output_format "text" (the default), otherwise `data` as JSON
+  protected respond<T>(args: any, data: T, text: string, isError = false): McpToolResponse {
+    return formatOutput(args, data, text, isError);
+  }
+
+  // A failed call, as the message or as {"error": message}
+  protected respondError(args: any, message: string): McpToolResponse {
+    return formatError(args, message);
+  }
+
+  // Collection targeted by a tool call (`collection` argument, or the default one)
+  protected getCollectionName(args: any): string {
+    return this.apiClient.resolveCollectionName(args?.collection);
+  }
+
+  // Labels from the `tags`, `version`, `product` and `metadata` arguments, if any were given
+  protected getSourceMetadata(args: any): SourceMetadata | undefined {
+    return parseSourceMetadata(args);
+  }
+
+  /**
+   * The URLs a call indexes with their labels: the `url` argument itself, or
+   * one URL per entry of `versions` when it contains {version}, each labelled
+   * with its version.
+   */
+  protected getVersionedTargets(args: any): VersionedTarget[] {
+    const metadata = this.getSourceMetadata(args);
+    const targets = expandVersionedUrl(args.url, args.versions);
+    if (targets.length === 1 && targets[0].version === undefined) {
+      return [{ url: args.url, metadata }];
+    }
+    if (metadata?.version !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `Pass either version or a URL containing ${VERSION_PLACEHOLDER} with versions, not both`);
+    }
+    return targets.map(target => ({ url: target.url, metadata: { ...metadata, version: target.version } }));
+  }
+
+  // Filter built from the `include` and `exclude` URL pattern arguments
+  protected getUrlFilter(args: any): (url: URL) => boolean {
+    for (const key of ['include', 'exclude']) {
+      if (args[key] !== undefined && (!Array.isArray(args[key]) || !args[key].every((p: unknown) => typeof p === 'string'))) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be an array of patterns`);
+      }
+    }
+    try {
+      return createUrlFilter(args.include, args.exclude);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid URL pattern: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 }
\ No newline at end of file
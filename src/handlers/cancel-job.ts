@@ -0,0 +1,35 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ApiClient } from '../api-client.js';
+import { BaseHandler } from './base-handler.js';
+import { JobOutput, McpToolResponse } from '../types.js';
+import { JobManager } from '../jobs.js';
+
+export class CancelJobHandler extends BaseHandler {
+  private jobs: JobManager;
+
+  constructor(server: Server, apiClient: ApiClient, jobs: JobManager) {
+    super(server, apiClient);
+    this.jobs = jobs;
+  }
+
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    if (typeof args.job_id !== 'string' || args.job_id.trim() === '') {
+      throw new McpError(ErrorCode.InvalidParams, 'job_id is required');
+    }
+
+    let job;
+    try {
+      job = await this.jobs.cancel(args.job_id.trim());
+    } catch (error) {
+      return this.respondError(args, `Failed to cancel job: ${error}`);
+    }
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Job not found: ${args.job_id}`);
+    }
+
+    return this.respond<JobOutput>(args, { job }, job.status === 'running'
+      ? `Cancelling ${job.tool} job ${job.id}. It stops once the URL or file in hand is finished; call get_job_status to confirm.`
+      : `${job.tool} job ${job.id} is not running (${job.status}); nothing to cancel.`);
+  }
+}
@@ -0,0 +1,49 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { CollectionSearchSettings, McpToolResponse, SearchSettingsOutput } from '../types.js';
+
+const THRESHOLD_ARGUMENTS: [string, keyof CollectionSearchSettings][] = [
+  ['score_threshold', 'scoreThreshold'],
+  ['rerank_threshold', 'rerankThreshold'],
+];
+
+export function describeSearchSettings(settings: CollectionSearchSettings): string {
+  const parts: string[] = [];
+  if (settings.scoreThreshold !== undefined) parts.push(`score threshold ${settings.scoreThreshold}`);
+  if (settings.rerankThreshold !== undefined) parts.push(`rerank threshold ${settings.rerankThreshold}`);
+  return parts.join(', ');
+}
+
+export class ConfigureCollectionHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    const collection = this.getCollectionName(args);
+    await this.apiClient.requireCollection(collection);
+
+    const settings = await this.apiClient.getSearchSettings(collection);
+    let changed = false;
+    // A number sets the threshold, null goes back to the server default
+    for (const [argument, key] of THRESHOLD_ARGUMENTS) {
+      const value = args[argument];
+      if (value === undefined) {
+        continue;
+      }
+      if (value !== null && (typeof value !== 'number' || value < 0 || value > 1)) {
+        throw new McpError(ErrorCode.InvalidParams, `${argument} must be a number between 0 and 1, or null to use the default`);
+      }
+      if (value === null) {
+        delete settings[key];
+      } else {
+        settings[key] = value;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      await this.apiClient.setSearchSettings(collection, settings);
+    }
+    const description = describeSearchSettings(settings) || 'server defaults';
+    return this.respond<SearchSettingsOutput>(args, { collection, settings, updated: changed }, changed
+      ? `Updated search settings of '${collection}': ${description}`
+      : `Search settings of '${collection}': ${description}`);
+  }
+}
@@ -0,0 +1,357 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { AddDocumentationHandler } from './add-documentation.js';
+import { ChunkCounts, CrawlOutput, CrawlSummary, McpToolResponse, SourceMetadata } from '../types.js';
+import { queueStore } from '../queue-store.js';
+import { RobotsDisallowedError } from '../robots.js';
+import { extractLinks, isLikelyPage, normalizeUrl } from '../url-utils.js';
+import { VERSION_PLACEHOLDER } from '../versions.js';
+import { ToolContext } from '../tool-context.js';
+import * as cheerio from 'cheerio';
+
+const CRAWL_SCOPES = ['prefix', 'host'] as const;
+const CRAWL_ACTIONS = ['queue', 'index'] as const;
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 50;
+const MAX_DEPTH_LIMIT = 10;
+const MAX_PAGES_LIMIT = 1000;
+const MAX_REPORTED_FAILURES = 10;
+
+type CrawlScope = typeof CRAWL_SCOPES[number];
+type CrawlAction = typeof CRAWL_ACTIONS[number];
+
+interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  scope: CrawlScope;
+  prefix: string;
+  keepQuery: boolean;
+  ignoreRobots: boolean;
+  filter: (url: URL) => boolean;
+}
+
+interface CrawlResult {
+  pages: string[];
+  blocked: string[]; // Disallowed by robots.txt
+  failures: { url: string; error: string }[];
+  unvisited: number;
+  cancelled: boolean;
+}
+
+// Where the crawl of one seed got to: the pages still to visit and those already seen or done
+interface CrawlState {
+  frontier: { url: string; depth: number }[];
+  seen: string[];
+  pages: string[];
+  blocked: string[];
+  failures: { url: string; error: string }[];
+}
+
+interface SeedCheckpoint extends CrawlState {
+  indexed: ChunkCounts;
+}
+
+// Checkpoint of a background crawl: the seeds already crawled and where the current one got to
+interface CrawlCheckpoint {
+  sections: string[];
+  summaries: CrawlSummary[];
+  current?: SeedCheckpoint;
+}
+
+export class CrawlDocumentationHandler extends BaseHandler {
+  async validateArgs(args: any): Promise<void> {
+    this.parseArgs(args);
+  }
+
+  async handle(args: any, context: ToolContext = new ToolContext()): Promise<McpToolResponse> {
+    const { collection, action, crawls } = this.parseArgs(args);
+
+    try {
+      const resume = context.checkpoint as CrawlCheckpoint | undefined;
+      const sections: string[] = resume?.sections ?? [];
+      const summaries: CrawlSummary[] = resume?.summaries ?? [];
+      let current = resume?.current;
+      const save = (checkpoint: CrawlCheckpoint) => context.saveCheckpoint(checkpoint);
+      // Versions are crawled one after the other, each within its own seed's scope
+      for (const { seed, metadata, options } of crawls.slice(summaries.length)) {
+        if (context.cancelled) {
+          sections.push(`Cancelled before crawling ${seed.href}`);
+          continue;
+        }
+        const result = await this.crawlSeed(seed, options, action, collection, context, metadata, current, state =>
+          save({ sections: [...sections], summaries: [...summaries], current: state })
+        );
+        current = undefined;
+        sections.push(result.lines.join('\n'));
+        summaries.push(result.summary);
+        save({ sections: [...sections], summaries: [...summaries] });
+      }
+
+      const pages = summaries.reduce((sum, summary) => sum + summary.pages.length, 0);
+      return this.respond<CrawlOutput>(args, { collection, action, crawls: summaries }, sections.join('\n\n'), pages === 0);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to crawl documentation: ${error}`);
+    }
+  }
+
+  // One crawl per seed: the URL itself, or one per version when it contains {version}
+  private parseArgs(args: any) {
+    if (!args.url || typeof args.url !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'URL is required');
+    }
+    const seeds = this.getVersionedTargets(args).map(target => ({ seed: this.parseSeed(target.url), metadata: target.metadata }));
+
+    const collection = this.getCollectionName(args);
+    const action: CrawlAction = args.action || 'queue';
+    if (!CRAWL_ACTIONS.includes(action)) {
+      throw new McpError(ErrorCode.InvalidParams, `action must be one of: ${CRAWL_ACTIONS.join(', ')}`);
+    }
+    const crawls = seeds.map(({ seed, metadata }) => ({ seed, metadata, options: this.parseOptions(args, seed, metadata?.version) }));
+    return { collection, action, crawls };
+  }
+
+  private parseSeed(url: string): URL {
+    let seed: URL;
+    try {
+      seed = new URL(url);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid URL: ${url}`);
+    }
+    if (seed.protocol !== 'http:' && seed.protocol !== 'https:') {
+      throw new McpError(ErrorCode.InvalidParams, 'Only http and https URLs can be crawled');
+    }
+    return seed;
+  }
+
+  /**
+   * Crawls from one seed and queues or indexes what it finds; returns the
+   * report lines and summary. A background job passes the seed's checkpoint
+   * from an interrupted run, and a listener for the ones taken as it goes.
+   */
+  private async crawlSeed(
+    seed: URL,
+    options: CrawlOptions,
+    action: CrawlAction,
+    collection: string,
+    context: ToolContext,
+    metadata?: SourceMetadata,
+    resume?: SeedCheckpoint,
+    onCheckpoint?: (checkpoint: SeedCheckpoint) => void
+  ): Promise<{ lines: string[]; summary: CrawlSummary }> {
+    const indexer = new AddDocumentationHandler(this.server, this.apiClient);
+    const totals: ChunkCounts = resume
+      ? { ...resume.indexed }
+      : { chunks: 0, added: 0, updated: 0, unchanged: 0, removed: 0, embeddingRetries: 0 };
+
+    // Pages are indexed as they are rendered, so the crawl never holds more than one page in memory
+    const checkpoint = (state: CrawlState) => onCheckpoint?.({ ...state, indexed: { ...totals } });
+    const crawl = await this.crawl(seed, options, context, resume, checkpoint, action === 'queue' ? undefined : async (url, html) => {
+      const result = await indexer.indexHtml(url, html, collection, metadata);
+      totals.chunks += result.chunks;
+      totals.added += result.added;
+      totals.updated += result.updated;
+      totals.unchanged += result.unchanged;
+      totals.removed += result.removed;
+      totals.embeddingRetries += result.embeddingRetries;
+    });
+    const scope = options.scope === 'prefix' ? `${seed.host}${options.prefix}` : seed.host;
+    const lines = [
+      `Crawled ${crawl.pages.length} page${crawl.pages.length === 1 ? '' : 's'} from ${seed.href} ` +
+        `(max depth ${options.maxDepth}, scope ${scope})`,
+    ];
+    const summary: CrawlSummary = {
+      seed: seed.href,
+      version: metadata?.version,
+      scope,
+      maxDepth: options.maxDepth,
+      pages: crawl.pages,
+      blocked: crawl.blocked,
+      unvisited: crawl.unvisited,
+      cancelled: crawl.cancelled,
+      failures: crawl.failures.map(failure => ({ source: failure.url, error: failure.error })),
+    };
+
+    if (action === 'queue') {
+      const { added, skipped } = await queueStore.enqueue(
+        crawl.pages.map(url => ({ url, collection, ignoreRobots: options.ignoreRobots || undefined, metadata })),
+        'crawl_documentation'
+      );
+      summary.queued = { added, alreadyQueued: skipped };
+      lines.push(`Added ${added} URLs to the queue for collection '${collection}'` +
+        (skipped > 0 ? ` (${skipped} already queued)` : ''));
+    } else {
+      summary.indexed = totals;
+      lines.push(`Indexed ${crawl.pages.length} pages into '${collection}' ` +
+        `(${totals.chunks} chunks: ${totals.added} added, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.removed} removed` +
+        (totals.embeddingRetries > 0 ? `; ${totals.embeddingRetries} embedding requests retried)` : ')'));
+    }
+
+    if (crawl.blocked.length > 0) {
+      lines.push(`Skipped ${crawl.blocked.length} URLs disallowed by robots.txt (pass ignore_robots: true to include them)`);
+    }
+    if (crawl.cancelled) {
+      lines.push(`Cancelled; ${crawl.unvisited} discovered URLs were not visited`);
+    } else if (crawl.unvisited > 0) {
+      lines.push(`Stopped at the ${options.maxPages}-page limit; ${crawl.unvisited} discovered URLs were not visited`);
+    }
+    if (crawl.failures.length > 0) {
+      lines.push(`${crawl.failures.length} page${crawl.failures.length === 1 ? '' : 's'} failed:`);
+      lines.push(...crawl.failures.slice(0, MAX_REPORTED_FAILURES).map(failure => `- ${failure.url}: ${failure.error}`));
+      if (crawl.failures.length > MAX_REPORTED_FAILURES) {
+        lines.push(`- ... and ${crawl.failures.length - MAX_REPORTED_FAILURES} more`);
+      }
+    }
+    return { lines, summary };
+  }
+
+  private parseOptions(args: any, seed: URL, version?: string): CrawlOptions {
+    const maxDepth = args.max_depth ?? DEFAULT_MAX_DEPTH;
+    if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_DEPTH_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_depth must be an integer between 0 and ${MAX_DEPTH_LIMIT}`);
+    }
+    const maxPages = args.max_pages ?? DEFAULT_MAX_PAGES;
+    if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > MAX_PAGES_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_pages must be an integer between 1 and ${MAX_PAGES_LIMIT}`);
+    }
+    const scope: CrawlScope = args.scope || 'prefix';
+    if (!CRAWL_SCOPES.includes(scope)) {
+      throw new McpError(ErrorCode.InvalidParams, `scope must be one of: ${CRAWL_SCOPES.join(', ')}`);
+    }
+
+    // Default prefix is the seed's directory, so /docs/guide/intro crawls /docs/guide/*
+    let prefix: string = args.prefix ?? seed.pathname.slice(0, seed.pathname.lastIndexOf('/') + 1);
+    if (typeof prefix !== 'string' || !prefix.startsWith('/')) {
+      throw new McpError(ErrorCode.InvalidParams, 'prefix must be a path starting with /');
+    }
+    if (version !== undefined) {
+      prefix = prefix.split(VERSION_PLACEHOLDER).join(version);
+    }
+    if (!prefix.endsWith('/')) {
+      prefix += '/';
+    }
+
+    return {
+      maxDepth,
+      maxPages,
+      scope,
+      prefix,
+      keepQuery: args.keep_query === true,
+      ignoreRobots: args.ignore_robots === true,
+      filter: this.getUrlFilter(args),
+    };
+  }
+
+  private inScope(url: URL, seed: URL, options: CrawlOptions): boolean {
+    if (url.host.toLowerCase() !== seed.host.toLowerCase()) {
+      return false;
+    }
+    // Normalised URLs drop the trailing slash, so the prefix directory itself is matched explicitly
+    return options.scope === 'host' ||
+      url.pathname.startsWith(options.prefix) ||
+      url.pathname === options.prefix.slice(0, -1);
+  }
+
+  /**
+   * Breadth-first so that max_pages keeps the pages closest to the seed.
+   * Starts from `resume` when given, and reports the state before each page,
+   * so a crawl that is interrupted visits the page in hand again.
+   */
+  private async crawl(
+    seed: URL,
+    options: CrawlOptions,
+    context: ToolContext,
+    resume: CrawlState | undefined,
+    onCheckpoint: (state: CrawlState) => void,
+    onPage?: (url: string, html: string) => Promise<void>
+  ): Promise<CrawlResult> {
+    const result: CrawlResult = {
+      pages: [...resume?.pages ?? []],
+      blocked: [...resume?.blocked ?? []],
+      failures: [...resume?.failures ?? []],
+      unvisited: 0,
+      cancelled: false,
+    };
+    const seedUrl = normalizeUrl(seed, { keepQuery: options.keepQuery });
+    const seen = new Set<string>(resume?.seen ?? [seedUrl]);
+    const frontier: { url: string; depth: number }[] = resume ? [...resume.frontier] : [{ url: seedUrl, depth: 0 }];
+
+    await this.apiClient.initBrowser();
+    const page = await this.apiClient.browser.newPage();
+
+    try {
+      while (frontier.length > 0 && result.pages.length < options.maxPages) {
+        onCheckpoint({
+          frontier: [...frontier],
+          seen: [...seen],
+          pages: [...result.pages],
+          blocked: [...result.blocked],
+          failures: [...result.failures],
+        });
+        if (context.cancelled) {
+          result.cancelled = true;
+          break;
+        }
+        const { url, depth } = frontier.shift()!;
+        try {
+          await this.apiClient.robots.acquire(url, options.ignoreRobots);
+          const response = await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
+          if (response && !response.ok()) {
+            throw new Error(`HTTP ${response.status()}`);
+          }
+          const contentType = response?.headers()['content-type'] || '';
+          if (contentType && !contentType.includes('html')) {
+            continue; // Not a page (e.g. a PDF download); leave it to add_documentation
+          }
+
+          // Follow redirects, but never record the same page twice or leave the crawl scope
+          const finalUrl = normalizeUrl(page.url(), { keepQuery: options.keepQuery });
+          if (finalUrl !== url) {
+            if (seen.has(finalUrl) || !this.inScope(new URL(finalUrl), seed, options)) {
+              continue;
+            }
+            seen.add(finalUrl);
+          }
+
+          const html = await page.content();
+          // Links are followed before the page is indexed, so a page without content of its own still leads on
+          if (depth < options.maxDepth) {
+            for (const link of extractLinks(cheerio.load(html), finalUrl)) {
+              if (!isLikelyPage(link) || !this.inScope(link, seed, options) || !options.filter(link)) {
+                continue;
+              }
+              const normalized = normalizeUrl(link, { keepQuery: options.keepQuery });
+              if (!seen.has(normalized)) {
+                seen.add(normalized);
+                frontier.push({ url: normalized, depth: depth + 1 });
+              }
+            }
+          }
+
+          await onPage?.(finalUrl, html);
+          result.pages.push(finalUrl);
+          // No total is sent, as the crawl only knows how many pages there are once the frontier runs dry
+          context.advance(1, undefined, `Crawled ${finalUrl} (${result.pages.length} pages, ${frontier.length} more to visit)`);
+        } catch (error) {
+          if (error instanceof RobotsDisallowedError) {
+            result.blocked.push(url);
+            continue;
+          }
+          // Connection and auth problems while indexing would fail every page, so stop early
+          if (error instanceof McpError) {
+            throw error;
+          }
+          console.error(`Failed to crawl ${url}:`, error);
+          result.failures.push({ url, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      await page.close();
+    }
+
+    result.unvisited = frontier.length;
+    return result;
+  }
+}
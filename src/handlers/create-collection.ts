@@ -0,0 +1,21 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { CollectionOutput, McpToolResponse } from '../types.js';
+
+export class CreateCollectionHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!args.collection || typeof args.collection !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'collection is required');
+    }
+    const collection = this.getCollectionName(args);
+
+    if (await this.apiClient.collectionExists(collection)) {
+      throw new McpError(ErrorCode.InvalidParams, `Collection already exists: ${collection}`);
+    }
+
+    await this.apiClient.initCollection(collection);
+
+    return this.respond<CollectionOutput>(args, { collection, status: 'created' },
+      `Collection '${collection}' created. Pass "collection": "${collection}" to other tools to use it.`);
+  }
+}
@@ -0,0 +1,23 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { CollectionOutput, McpToolResponse } from '../types.js';
+import { notifySourceListChanged } from '../resource-registry.js';
+
+export class DeleteCollectionHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!args.collection || typeof args.collection !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'collection is required');
+    }
+    const collection = this.getCollectionName(args);
+
+    if (!(await this.apiClient.collectionExists(collection))) {
+      throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${collection}`);
+    }
+
+    await this.apiClient.deleteCollection(collection);
+    notifySourceListChanged(this.server);
+
+    return this.respond<CollectionOutput>(args, { collection, status: 'deleted' },
+      `Collection '${collection}' and all documentation stored in it were deleted.`);
+  }
+}
@@ -1,21 +1,18 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseHandler } from './base-handler.js';
-import { McpToolResponse } from '../types.js';
+import { ExtractUrlsOutput, McpToolResponse } from '../types.js';
 import * as cheerio from 'cheerio';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { queueStore } from '../queue-store.js';
+import { RobotsDisallowedError } from '../robots.js';
 
 export class ExtractUrlsHandler extends BaseHandler {
   async handle(args: any): Promise<McpToolResponse> {
     if (!args.url || typeof args.url !== 'string') {
       throw new McpError(ErrorCode.InvalidParams, 'URL is required');
     }
+    const collection = this.getCollectionName(args);
+    const metadata = this.getSourceMetadata(args);
+    const ignoreRobots = args.ignore_robots === true;
 
     await this.apiClient.initBrowser();
     const page = await this.apiClient.browser.newPage();
@@ -24,6 +21,7 @@ export class ExtractUrlsHandler extends BaseHandler {
       const baseUrl = new URL(args.url);
       const basePath = baseUrl.pathname.split('/').slice(0, 3).join('/'); // Get the base path (e.g., /3/ for Python docs)
 
+      await this.apiClient.robots.acquire(args.url, ignoreRobots);
       await page.goto(args.url, { waitUntil: 'networkidle' });
       const content = await page.content();
       const $ = cheerio.load(content);
@@ -47,60 +45,39 @@ export class ExtractUrlsHandler extends BaseHandler {
         }
       });
 
-      const urlArray = Array.from(urls);
+      const urlArray: string[] = [];
+      let blocked = 0;
+      for (const url of urls) {
+        if (await this.apiClient.robots.isAllowed(url, ignoreRobots)) {
+          urlArray.push(url);
+        } else {
+          blocked++;
+        }
+      }
+      const blockedNote = blocked > 0 ? `\n(${blocked} URLs disallowed by robots.txt were left out)` : '';
+      const output: ExtractUrlsOutput = { url: args.url, collection, urls: urlArray, blocked };
 
       if (args.add_to_queue) {
         try {
-          // Ensure queue file exists
-          try {
-            await fs.access(QUEUE_FILE);
-          } catch {
-            await fs.writeFile(QUEUE_FILE, '');
-          }
-
-          // Append URLs to queue
-          const urlsToAdd = urlArray.join('\n') + (urlArray.length > 0 ? '\n' : '');
-          await fs.appendFile(QUEUE_FILE, urlsToAdd);
+          const { added, skipped } = await queueStore.enqueue(
+            urlArray.map(url => ({ url, collection, ignoreRobots: ignoreRobots || undefined, metadata })),
+            'extract_urls'
+          );
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Successfully added ${urlArray.length} URLs to the queue`,
-              },
-            ],
-          };
+          output.queued = { added, alreadyQueued: skipped };
+          return this.respond(args, output, `Successfully added ${added} URLs to the queue for collection '${collection}'` +
+            (skipped > 0 ? ` (${skipped} already queued)` : '') + blockedNote);
         } catch (error) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Failed to add URLs to queue: ${error}`,
-              },
-            ],
-            isError: true,
-          };
+          return this.respondError(args, `Failed to add URLs to queue: ${error}`);
         }
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: urlArray.join('\n') || 'No URLs found on this page.',
-          },
-        ],
-      };
+      return this.respond(args, output, (urlArray.join('\n') || 'No URLs found on this page.') + blockedNote);
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to extract URLs: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      if (error instanceof RobotsDisallowedError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to extract URLs: ${error}`);
     } finally {
       await page.close();
     }
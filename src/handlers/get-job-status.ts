@@ -0,0 +1,37 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ApiClient } from '../api-client.js';
+import { BaseHandler } from './base-handler.js';
+import { JobOutput, McpToolResponse } from '../types.js';
+import { JobManager, formatJob } from '../jobs.js';
+
+export class GetJobStatusHandler extends BaseHandler {
+  private jobs: JobManager;
+
+  constructor(server: Server, apiClient: ApiClient, jobs: JobManager) {
+    super(server, apiClient);
+    this.jobs = jobs;
+  }
+
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    if (typeof args.job_id !== 'string' || args.job_id.trim() === '') {
+      throw new McpError(ErrorCode.InvalidParams, 'job_id is required');
+    }
+
+    let job;
+    try {
+      job = await this.jobs.get(args.job_id.trim());
+    } catch (error) {
+      return this.respondError(args, `Failed to read jobs: ${error}`);
+    }
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Job not found: ${args.job_id}`);
+    }
+
+    let text = formatJob(job);
+    if (job.result !== undefined) {
+      text += `\n\nResult:\n${JSON.stringify(job.result, null, 2)}`;
+    }
+    return this.respond<JobOutput>(args, { job }, text);
+  }
+}
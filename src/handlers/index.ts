@@ -3,7 +3,24 @@ export * from './add-documentation.js';
 export * from './search-documentation.js';
 export * from './list-sources.js';
 export * from './extract-urls.js';
+export * from './crawl-documentation.js';
+export * from './add-sitemap.js';
+export * from './add-directory.js';
+export * from './add-repository.js';
+export * from './add-openapi.js';
+export * from './preview-extraction.js';
 export * from './remove-documentation.js';
 export * from './list-queue.js';
 export * from './run-queue.js';
-export * from './clear-queue.js';
\ No newline at end of file
+export * from './clear-queue.js';
+export * from './create-collection.js';
+export * from './list-collections.js';
+export * from './delete-collection.js';
+export * from './configure-collection.js';
+export * from './retry-failed.js';
+export * from './migrate-embeddings.js';
+export * from './tag-source.js';
+export * from './untag-source.js';
+export * from './get-job-status.js';
+export * from './list-jobs.js';
+export * from './cancel-job.js';
@@ -0,0 +1,60 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { CollectionListOutput, CollectionSummary, McpToolResponse, QdrantCollectionInfo } from '../types.js';
+import { DEFAULT_COLLECTION_NAME } from '../api-client.js';
+import { describeSearchSettings } from './configure-collection.js';
+
+export class ListCollectionsHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    try {
+      const names = await this.apiClient.listCollectionNames();
+      const embeddingModel = this.apiClient.describeEmbeddingModel();
+
+      if (names.length === 0) {
+        return this.respond<CollectionListOutput>(args, { embeddingModel, collections: [] }, 'No collections found.');
+      }
+
+      const lines: string[] = [];
+      const collections: CollectionSummary[] = [];
+      for (const name of names) {
+        const info = await this.apiClient.qdrantClient.getCollection(name) as QdrantCollectionInfo;
+        const vectorSize = info.config?.params?.vectors?.size;
+        const keywordSearch = Boolean(info.config?.params?.sparse_vectors);
+        const marker = name === DEFAULT_COLLECTION_NAME ? ' (default)' : '';
+        const tag = await this.apiClient.getEmbeddingTag(name);
+        const model = tag ? `${tag.provider}/${tag.model}` : undefined;
+        lines.push(`- ${name}${marker}: ${info.points_count ?? 0} chunks, model ${model ?? 'unknown'}, ` +
+          `vector size ${vectorSize ?? 'unknown'}, keyword search: ${keywordSearch ? 'yes' : 'no'}`);
+        const settings = describeSearchSettings(tag?.searchSettings ?? {});
+        if (settings) {
+          lines.push(`  search: ${settings}`);
+        }
+
+        const migration = this.apiClient.migrations.getStatus(name);
+        collections.push({
+          name,
+          default: name === DEFAULT_COLLECTION_NAME,
+          chunks: info.points_count ?? 0,
+          model,
+          vectorSize,
+          keywordSearch,
+          searchSettings: tag?.searchSettings ?? {},
+          migration,
+        });
+        if (migration?.state === 'running') {
+          lines.push(`  migrating to ${migration.to}: ${migration.migrated}/${migration.total} chunks re-embedded`);
+        } else if (migration?.state === 'failed') {
+          lines.push(`  last migration to ${migration.to} failed: ${migration.error}`);
+        }
+      }
+
+      return this.respond<CollectionListOutput>(args, { embeddingModel, collections },
+        `${names.length} collection${names.length === 1 ? '' : 's'} (configured embedding model: ${embeddingModel}):\n${lines.join('\n')}`);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to list collections: ${error}`);
+    }
+  }
+}
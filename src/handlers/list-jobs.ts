@@ -0,0 +1,48 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ApiClient } from '../api-client.js';
+import { BaseHandler } from './base-handler.js';
+import { JobListOutput, JobStatus, McpToolResponse } from '../types.js';
+import { JobManager, formatJob } from '../jobs.js';
+import { JOB_STATUSES } from '../job-store.js';
+
+const DEFAULT_JOB_LIMIT = 20;
+
+export class ListJobsHandler extends BaseHandler {
+  private jobs: JobManager;
+
+  constructor(server: Server, apiClient: ApiClient, jobs: JobManager) {
+    super(server, apiClient);
+    this.jobs = jobs;
+  }
+
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    if (args.status !== undefined && !JOB_STATUSES.includes(args.status)) {
+      throw new McpError(ErrorCode.InvalidParams, `status must be one of: ${JOB_STATUSES.join(', ')}`);
+    }
+    const limit = args.limit ?? DEFAULT_JOB_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new McpError(ErrorCode.InvalidParams, 'limit must be a positive integer');
+    }
+
+    try {
+      const matching = await this.jobs.list({ status: args.status, tool: args.tool });
+      const counts = Object.fromEntries(
+        JOB_STATUSES.map(status => [status, matching.filter(job => job.status === status).length])
+      ) as Record<JobStatus, number>;
+      const jobs = matching.slice(0, limit);
+      const output: JobListOutput = { counts, jobs };
+
+      if (jobs.length === 0) {
+        return this.respond(args, output, args.status ? `No ${args.status} jobs` : 'No background jobs');
+      }
+
+      const summary = JOB_STATUSES.map(status => `${counts[status]} ${status}`).join(', ');
+      const shown = jobs.length < matching.length ? `, newest ${jobs.length} shown` : '';
+      return this.respond(args, output,
+        `${matching.length} jobs (${summary}${shown}):\n${jobs.map(job => formatJob(job)).join('\n')}`);
+    } catch (error) {
+      return this.respondError(args, `Failed to read jobs: ${error}`);
+    }
+  }
+}
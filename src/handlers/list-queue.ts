@@ -1,69 +1,48 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { ApiClient } from '../api-client.js';
 import { BaseHandler } from './base-handler.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { McpToolResponse, QueueItem, QueueItemStatus, QueueListOutput } from '../types.js';
+import { QUEUE_STATUSES, queueStore } from '../queue-store.js';
 
 export class ListQueueHandler extends BaseHandler {
   constructor(server: Server, apiClient: ApiClient) {
     super(server, apiClient);
   }
 
-  async handle(_args: any) {
-    try {
-      // Check if queue file exists
-      try {
-        await fs.access(QUEUE_FILE);
-      } catch {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is empty (queue file does not exist)',
-            },
-          ],
-        };
-      }
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    if (args.status !== undefined && !QUEUE_STATUSES.includes(args.status)) {
+      throw new McpError(ErrorCode.InvalidParams, `status must be one of: ${QUEUE_STATUSES.join(', ')}`);
+    }
 
-      // Read queue file
-      const content = await fs.readFile(QUEUE_FILE, 'utf-8');
-      const urls = content.split('\n').filter(url => url.trim() !== '');
+    try {
+      const collection = args.collection === undefined ? undefined : this.getCollectionName(args);
+      const items = await queueStore.list({ status: args.status, collection });
+      const counts = Object.fromEntries(
+        QUEUE_STATUSES.map(status => [status, items.filter(item => item.status === status).length])
+      ) as Record<QueueItemStatus, number>;
+      const output: QueueListOutput = { counts, items };
 
-      if (urls.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is empty',
-            },
-          ],
-        };
+      if (items.length === 0) {
+        return this.respond(args, output, args.status ? `No ${args.status} items in the queue` : 'Queue is empty');
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Queue contains ${urls.length} URLs:\n${urls.join('\n')}`,
-          },
-        ],
-      };
+      const summary = QUEUE_STATUSES.map(status => `${counts[status]} ${status}`).join(', ');
+      return this.respond(args, output,
+        `Queue contains ${items.length} items (${summary}):\n${items.map(item => this.formatItem(item)).join('\n')}`);
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to read queue: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      return this.respondError(args, `Failed to read queue: ${error}`);
+    }
+  }
+
+  private formatItem(item: QueueItem): string {
+    let line = `[${item.status}] ${item.url} (collection: ${item.collection}, attempts: ${item.attempts}, added by ${item.source} at ${item.addedAt})`;
+    if (item.nextAttemptAt) {
+      line += `\n    next attempt at ${item.nextAttemptAt}`;
+    }
+    if (item.lastError) {
+      line += `\n    last error: ${item.lastError}`;
     }
+    return line;
   }
-}
\ No newline at end of file
+}
@@ -1,22 +1,18 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseHandler } from './base-handler.js';
-import { McpToolResponse, isDocumentPayload } from '../types.js';
-
-const COLLECTION_NAME = 'documentation';
-
-interface Source {
-  title: string;
-  url: string;
-}
+import { McpToolResponse, ProductVersions, SourceListOutput, SourceSummary } from '../types.js';
+import { compareVersions, latestVersion } from '../versions.js';
+import path from 'path';
+import { fileURLToPath } from 'url';
 
 interface GroupedSources {
   [domain: string]: {
-    [subdomain: string]: Source[];
+    [subdomain: string]: SourceSummary[];
   };
 }
 
 export class ListSourcesHandler extends BaseHandler {
-  private groupSourcesByDomainAndSubdomain(sources: Source[]): GroupedSources {
+  private groupSourcesByDomainAndSubdomain(sources: SourceSummary[]): GroupedSources {
     const grouped: GroupedSources = {};
 
     const LOCAL_FILES_DOMAIN = 'Local Files'; // Define a constant for local files
@@ -28,9 +24,15 @@ export class ListSourcesHandler extends BaseHandler {
       try {
         // Try parsing as a standard URL
         const urlObject = new URL(source.url);
-        domain = urlObject.hostname;
-        const pathParts = urlObject.pathname.split('/').filter(p => p);
-        subdomain = pathParts[0] || '/'; // Use first path part or root
+        if (urlObject.protocol === 'file:') {
+          // Local files indexed by add_documentation or add_directory, grouped by their directory
+          subdomain = path.dirname(fileURLToPath(urlObject));
+          domain = `${LOCAL_FILES_DOMAIN}: ${subdomain}`;
+        } else {
+          domain = urlObject.hostname;
+          const pathParts = urlObject.pathname.split('/').filter(p => p);
+          subdomain = pathParts[0] || '/'; // Use first path part or root
+        }
       } catch (error) {
         // If URL parsing fails, treat as a local path
         console.warn(`Source URL "${source.url}" is not a standard URL, treating as local path.`);
@@ -60,7 +62,7 @@ export class ListSourcesHandler extends BaseHandler {
       output.push(`${domainCounter}. ${domain}`);
       
       // Create a Set of unique URL+title combinations
-      const uniqueSources = new Map<string, Source>();
+      const uniqueSources = new Map<string, SourceSummary>();
       for (const sources of Object.values(subdomains)) {
         for (const source of sources) {
           uniqueSources.set(source.url, source);
@@ -73,7 +75,8 @@ export class ListSourcesHandler extends BaseHandler {
 
       // Use letters for subdomain entries
       sortedSources.forEach((source, index) => {
-        output.push(`${domainCounter}.${index + 1}. ${source.title} (${source.url})`);
+        const version = source.version ? ` [${source.version}]` : '';
+        output.push(`${domainCounter}.${index + 1}. ${source.title}${version} (${source.url})`);
       });
 
       output.push(''); // Add blank line between domains
@@ -83,16 +86,42 @@ export class ListSourcesHandler extends BaseHandler {
     return output.join('\n');
   }
 
-  async handle(): Promise<McpToolResponse> {
+  // Indexed versions of each product, newest first, with the one searches default to
+  private collectVersions(sources: SourceSummary[]): ProductVersions[] {
+    const versionsByProduct = new Map<string | undefined, Set<string>>();
+    for (const source of sources) {
+      if (source.version) {
+        versionsByProduct.set(source.product, (versionsByProduct.get(source.product) || new Set()).add(source.version));
+      }
+    }
+    return Array.from(versionsByProduct.entries())
+      .sort(([a], [b]) => (a ?? '').localeCompare(b ?? ''))
+      .map(([product, set]) => {
+        const versions = Array.from(set).sort(compareVersions).reverse();
+        return { product, versions, latest: latestVersion(versions) };
+      });
+  }
+
+  private formatVersions(versions: ProductVersions[]): string {
+    return versions
+      .map(({ product, versions, latest }) =>
+        `- ${product || '(no product)'}: ${versions.map(version => version === latest ? `${version} (latest)` : version).join(', ')}`)
+      .join('\n');
+  }
+
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    const collection = this.getCollectionName(args);
+
     try {
-      await this.apiClient.initCollection(COLLECTION_NAME);
+      await this.apiClient.requireCollection(collection);
       
       const pageSize = 100;
       let offset = null;
-      const sources: Source[] = [];
+      // One entry per URL, counting its chunks
+      const sourcesByUrl = new Map<string, SourceSummary>();
       
       while (true) {
-        const scroll = await this.apiClient.qdrantClient.scroll(COLLECTION_NAME, {
+        const scroll = await this.apiClient.qdrantClient.scroll(collection, {
           with_payload: true,
           with_vector: false,
           limit: pageSize,
@@ -104,9 +133,23 @@ export class ListSourcesHandler extends BaseHandler {
         for (const point of scroll.points) {
           if (point.payload && typeof point.payload === 'object' && 'url' in point.payload && 'title' in point.payload) {
             const payload = point.payload as any;
-            sources.push({
+            const timestamp = typeof payload.timestamp === 'string' ? payload.timestamp : '';
+            const source = sourcesByUrl.get(payload.url);
+            if (source) {
+              source.chunks++;
+              if (timestamp > source.indexedAt) {
+                source.indexedAt = timestamp;
+              }
+              continue;
+            }
+            sourcesByUrl.set(payload.url, {
+              url: payload.url,
               title: payload.title,
-              url: payload.url
+              chunks: 1,
+              indexedAt: timestamp,
+              version: typeof payload.version === 'string' ? payload.version : undefined,
+              product: typeof payload.product === 'string' ? payload.product : undefined,
+              tags: Array.isArray(payload.tags) && payload.tags.length > 0 ? payload.tags : undefined,
             });
           }
         }
@@ -115,29 +158,23 @@ export class ListSourcesHandler extends BaseHandler {
         offset = scroll.points[scroll.points.length - 1].id;
       }
 
+      const sources = Array.from(sourcesByUrl.values());
+      const versions = this.collectVersions(sources);
+      const output: SourceListOutput = { collection, versions, sources };
       if (sources.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'No documentation sources found.',
-            },
-          ],
-        };
+        return this.respond(args, output, `No documentation sources found in '${collection}'.`);
       }
 
       const grouped = this.groupSourcesByDomainAndSubdomain(sources);
       const formattedOutput = this.formatGroupedSources(grouped);
+      const formattedVersions = this.formatVersions(versions);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: formattedOutput,
-          },
-        ],
-      };
+      return this.respond(args, output,
+        `Collection '${collection}':\n\n${formattedVersions ? `Versions by product:\n${formattedVersions}\n\n` : ''}${formattedOutput}`);
     } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       if (error instanceof Error) {
         if (error.message.includes('unauthorized')) {
           throw new McpError(
@@ -151,15 +188,7 @@ export class ListSourcesHandler extends BaseHandler {
           );
         }
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to list sources: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      return this.respondError(args, `Failed to list sources: ${error}`);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { McpToolResponse, MigrationOutput, MigrationStatus } from '../types.js';
+
+export class MigrateEmbeddingsHandler extends BaseHandler {
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    const collection = this.getCollectionName(args);
+    await this.apiClient.requireCollection(collection);
+
+    try {
+      const running = this.apiClient.migrations.isRunning(collection);
+      const status = running
+        ? this.apiClient.migrations.getStatus(collection)!
+        : await this.apiClient.migrations.start(collection);
+
+      return this.respond<MigrationOutput>(args, { alreadyRunning: running, migration: status },
+        running
+          ? `Migration of '${collection}' is already running. ${this.describeProgress(status)}`
+          : `Started re-embedding '${collection}' from ${status.from} to ${status.to} in the background. ` +
+            `The existing chunks stay in place until every chunk has been re-embedded and the collection is switched over; ` +
+            `until then keyword search keeps working, while adding or removing documentation in '${collection}' is blocked. ` +
+            `Call migrate_embeddings again or list_collections to follow progress.`);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to start migration: ${error}`);
+    }
+  }
+
+  private describeProgress(status: MigrationStatus): string {
+    return `Re-embedded ${status.migrated} of ${status.total} chunks with ${status.to} (started ${status.startedAt}).`;
+  }
+}
@@ -0,0 +1,102 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { McpToolResponse, PreviewOutput } from '../types.js';
+import { ContentBlock, chunkBlocks } from '../chunking.js';
+import { ExtractionProfile, MatchedProfile, extractContent, findExtractionProfile, validateExtractionProfile } from '../extraction.js';
+import { detectFormat, resolveAllowedPath, toFileUri } from '../local-files.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_MAX_CHARS = 4000;
+const MAX_CHARS_LIMIT = 50000;
+
+// Markdown-like rendering, so headings and code blocks stand out in the preview
+function renderBlock(block: ContentBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(block.level || 1)} ${block.text}`;
+    case 'code':
+      return `\`\`\`\n${block.text}\n\`\`\``;
+    default:
+      return block.text;
+  }
+}
+
+export class PreviewExtractionHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!args.url || typeof args.url !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'url is required');
+    }
+    const maxChars = args.max_chars ?? DEFAULT_MAX_CHARS;
+    if (!Number.isInteger(maxChars) || maxChars < 1 || maxChars > MAX_CHARS_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `max_chars must be an integer between 1 and ${MAX_CHARS_LIMIT}`);
+    }
+    let profileOverride: ExtractionProfile | undefined;
+    if (args.profile !== undefined) {
+      try {
+        profileOverride = validateExtractionProfile(args.profile);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid profile: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const isUrl = args.url.startsWith('http://') || args.url.startsWith('https://');
+    const localPath = isUrl ? undefined : await resolveAllowedPath(args.url);
+    if (localPath && detectFormat(localPath) !== 'html') {
+      throw new McpError(ErrorCode.InvalidParams, `${localPath} is not an HTML file; only HTML pages go through content extraction`);
+    }
+    const url = localPath ? toFileUri(localPath) : args.url;
+
+    try {
+      const html = localPath ? await fs.readFile(localPath, 'utf-8') : await this.renderPage(url, args.ignore_robots === true);
+      const configured = await findExtractionProfile(url);
+      const match: MatchedProfile | undefined = profileOverride
+        ? { domain: configured?.domain ?? (new URL(url).hostname || 'local files'), profile: profileOverride }
+        : configured;
+      const { title, blocks, strategy } = extractContent(html, localPath ? path.basename(localPath) : url, match);
+
+      const text = blocks.map(renderBlock).join('\n\n');
+      const count = (type: ContentBlock['type']) => blocks.filter(block => block.type === type).length;
+      const output: PreviewOutput = {
+        url,
+        title,
+        strategy,
+        blocks: blocks.length,
+        headings: count('heading'),
+        codeBlocks: count('code'),
+        tables: count('table'),
+        characters: text.length,
+        chunks: chunkBlocks(blocks).length,
+        text: text.slice(0, maxChars),
+        truncated: text.length > maxChars,
+      };
+      const lines = [
+        `Title: ${title}`,
+        `Extracted using ${strategy}` + (profileOverride ? ' (from the profile argument)' : ''),
+        `${output.blocks} blocks (${output.headings} headings, ${output.codeBlocks} code blocks, ${output.tables} tables), ` +
+          `${output.characters} characters, ${output.chunks} chunks when indexed`,
+        '',
+        output.truncated ? `${output.text}\n\n... (${text.length - maxChars} more characters)` : text || '(no content extracted)',
+      ];
+
+      return this.respond(args, output, lines.join('\n'));
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return this.respondError(args, `Failed to preview extraction: ${error}`);
+    }
+  }
+
+  private async renderPage(url: string, ignoreRobots: boolean): Promise<string> {
+    await this.apiClient.robots.acquire(url, ignoreRobots);
+    await this.apiClient.initBrowser();
+    const page = await this.apiClient.browser.newPage();
+    try {
+      await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
+      return await page.content();
+    } finally {
+      await page.close();
+    }
+  }
+}
@@ -1,8 +1,7 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseHandler } from './base-handler.js';
-import { McpToolResponse } from '../types.js';
-
-const COLLECTION_NAME = 'documentation';
+import { McpToolResponse, RemoveOutput } from '../types.js';
+import { notifySourceListChanged } from '../resource-registry.js';
 
 export class RemoveDocumentationHandler extends BaseHandler {
   async handle(args: any): Promise<McpToolResponse> {
@@ -14,9 +13,13 @@ export class RemoveDocumentationHandler extends BaseHandler {
       throw new McpError(ErrorCode.InvalidParams, 'All URLs must be strings');
     }
 
+    const collection = this.getCollectionName(args);
+    await this.apiClient.requireCollection(collection);
+    this.apiClient.assertWritable(collection);
+
     try {
       // Delete using filter to match any of the provided URLs
-      const result = await this.apiClient.qdrantClient.delete(COLLECTION_NAME, {
+      const result = await this.apiClient.qdrantClient.delete(collection, {
         filter: {
           should: args.urls.map((url: string) => ({
             key: 'url',
@@ -29,15 +32,10 @@ export class RemoveDocumentationHandler extends BaseHandler {
       if (!['acknowledged', 'completed'].includes(result.status)) {
         throw new Error('Delete operation failed');
       }
+      notifySourceListChanged(this.server);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Successfully removed documentation from ${args.urls.length} source${args.urls.length > 1 ? 's' : ''}: ${args.urls.join(', ')}`,
-          },
-        ],
-      };
+      return this.respond<RemoveOutput>(args, { collection, removed: args.urls },
+        `Successfully removed documentation from ${args.urls.length} source${args.urls.length > 1 ? 's' : ''} in '${collection}': ${args.urls.join(', ')}`);
     } catch (error) {
       if (error instanceof Error) {
         if (error.message.includes('unauthorized')) {
@@ -52,15 +50,7 @@ export class RemoveDocumentationHandler extends BaseHandler {
           );
         }
       }
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to remove documentation: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      return this.respondError(args, `Failed to remove documentation: ${error}`);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { BaseHandler } from './base-handler.js';
+import { McpToolResponse, RetryOutput } from '../types.js';
+import { queueStore } from '../queue-store.js';
+
+export class RetryFailedHandler extends BaseHandler {
+  async handle(args: any = {}): Promise<McpToolResponse> {
+    try {
+      const collection = args.collection === undefined ? undefined : this.getCollectionName(args);
+      const count = await queueStore.retryFailed(collection);
+
+      return this.respond<RetryOutput>(args, { requeued: count }, count > 0
+        ? `Re-queued ${count} failed URL${count === 1 ? '' : 's'}. Call run_queue to process them.`
+        : 'No failed URLs in the queue.');
+    } catch (error) {
+      return this.respondError(args, `Failed to re-queue failed URLs: ${error}`);
+    }
+  }
+}
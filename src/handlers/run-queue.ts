@@ -1,16 +1,11 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ApiClient } from '../api-client.js';
 import { BaseHandler } from './base-handler.js';
-import { McpToolResponse } from '../types.js';
+import { ChunkCounts, McpToolResponse, QueueRunOutput, SourceFailure } from '../types.js';
 import { AddDocumentationHandler } from './add-documentation.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { queueStore } from '../queue-store.js';
+import { RobotsDisallowedError } from '../robots.js';
+import { ToolContext } from '../tool-context.js';
 
 export class RunQueueHandler extends BaseHandler {
   private addDocHandler: AddDocumentationHandler;
@@ -20,75 +15,90 @@ export class RunQueueHandler extends BaseHandler {
     this.addDocHandler = new AddDocumentationHandler(server, apiClient);
   }
 
-  async handle(_args: any): Promise<McpToolResponse> {
+  async handle(args: any = {}, context: ToolContext = new ToolContext()): Promise<McpToolResponse> {
     try {
-      // Check if queue file exists
-      try {
-        await fs.access(QUEUE_FILE);
-      } catch {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is empty (queue file does not exist)',
-            },
-          ],
-        };
-      }
+      // Only process entries for one collection when asked to; others stay queued
+      const collection = args.collection === undefined ? undefined : this.getCollectionName(args);
 
       let processedCount = 0;
-      let failedCount = 0;
-      const failedUrls: string[] = [];
+      let retriedCount = 0;
+      const failed: SourceFailure[] = [];
+      const totals: ChunkCounts = { chunks: 0, added: 0, updated: 0, unchanged: 0, removed: 0, embeddingRetries: 0 };
+      let cancelled = false;
 
       while (true) {
-        // Read current queue
-        const content = await fs.readFile(QUEUE_FILE, 'utf-8');
-        const urls = content.split('\n').filter(url => url.trim() !== '');
+        // Checked between items, so a cancelled run never leaves an item marked as running
+        if (context.cancelled) {
+          cancelled = true;
+          break;
+        }
+        const item = await queueStore.claimNext(collection);
 
-        if (urls.length === 0) {
-          break; // Queue is empty
+        if (!item) {
+          // Wait for items backing off after a failure; stop once nothing is pending
+          const delay = await queueStore.nextRetryDelay(collection);
+          if (delay === null) {
+            break;
+          }
+          await context.sleep(delay);
+          continue;
         }
 
-        const currentUrl = urls[0]; // Get first URL
-        
+        // Every attempt counts as one unit of progress; the total grows as retries are scheduled
+        const attempted = processedCount + retriedCount + failed.length;
+        const total = attempted + 1 + (await queueStore.list({ status: 'pending', collection })).length;
+        let done = 0;
         try {
           // Process the URL using add_documentation handler
-          await this.addDocHandler.handle({ url: currentUrl });
+          const result = await this.addDocHandler.indexSource(item.url, item.collection, {
+            ignoreRobots: item.ignoreRobots,
+            metadata: item.metadata,
+            onEmbedded: (embedded, count) => {
+              context.advance(embedded / count - done, total, `Embedded ${embedded} of ${count} chunks of ${item.url}`);
+              done = embedded / count;
+            },
+          });
+          totals.chunks += result.chunks;
+          totals.added += result.added;
+          totals.updated += result.updated;
+          totals.unchanged += result.unchanged;
+          totals.removed += result.removed;
+          totals.embeddingRetries += result.embeddingRetries;
+          await queueStore.complete(item.id);
           processedCount++;
+          context.advance(1 - done, total, `Indexed ${item.url} (${totals.chunks} chunks so far)`);
         } catch (error) {
-          failedCount++;
-          failedUrls.push(currentUrl);
-          console.error(`Failed to process URL ${currentUrl}:`, error);
+          console.error(`Failed to process URL ${item.url} (attempt ${item.attempts}):`, error);
+          const updated = await queueStore.fail(
+            item.id,
+            error instanceof Error ? error.message : String(error),
+            !(error instanceof RobotsDisallowedError)
+          );
+          if (updated?.status === 'failed') {
+            failed.push({ source: item.url, error: updated.lastError || 'unknown error' });
+          } else {
+            retriedCount++;
+          }
+          context.advance(1 - done, total, `Failed to index ${item.url}${updated?.status === 'failed' ? '' : '; it will be retried'}`);
         }
-
-        // Remove the processed URL from queue
-        const remainingUrls = urls.slice(1);
-        await fs.writeFile(QUEUE_FILE, remainingUrls.join('\n') + (remainingUrls.length > 0 ? '\n' : ''));
       }
 
-      let resultText = `Queue processing complete.\nProcessed: ${processedCount} URLs\nFailed: ${failedCount} URLs`;
-      if (failedUrls.length > 0) {
-        resultText += `\n\nFailed URLs:\n${failedUrls.join('\n')}`;
+      let resultText = `Queue processing complete.\nProcessed: ${processedCount} URLs\nFailed: ${failed.length} URLs` +
+        `\nRetries: ${retriedCount}` +
+        `\nChunks: ${totals.added} added, ${totals.updated} updated, ${totals.unchanged} unchanged, ${totals.removed} removed` +
+        `\nEmbedding retries: ${totals.embeddingRetries}`;
+      if (cancelled) {
+        resultText += '\nCancelled: the remaining items stay in the queue for the next run';
+      }
+      if (failed.length > 0) {
+        resultText += `\n\nFailed URLs (use retry_failed to queue them again):\n` +
+          failed.map(failure => `${failure.source}: ${failure.error}`).join('\n');
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: resultText,
-          },
-        ],
-      };
+      const output: QueueRunOutput = { processed: processedCount, retried: retriedCount, failed, chunks: totals, cancelled };
+      return this.respond(args, output, resultText);
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to process queue: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      return this.respondError(args, `Failed to process queue: ${error}`);
     }
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,43 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseHandler } from './base-handler.js';
-import { McpToolResponse, isDocumentPayload } from '../types.js';
+import { CollectionSearchSettings, DocumentPayload, McpToolResponse, SearchOutput, SearchResult, isDocumentPayload } from '../types.js';
+import { SPARSE_VECTOR_NAME, SparseVector, buildQuerySparseVector } from '../sparse-vectors.js';
+import { reciprocalRankFusion } from '../fusion.js';
+import { SearchFilter, buildSearchFilter, getUrlPrefix, restrictToLatestVersions, wantsLatestVersion } from '../search-filter.js';
+import { MAX_RERANK_CANDIDATES, RERANKER_NAMES, RERANK_CANDIDATES, Reranker, RerankerName, createReranker } from '../reranking.js';
 
-const COLLECTION_NAME = 'documentation';
+const SEARCH_MODES = ['semantic', 'keyword', 'hybrid'] as const;
+const ALL_COLLECTIONS = '*';
+// Defaults for collections without their own thresholds (see configure_collection)
+const SEARCH_SCORE_THRESHOLD = parseFloat(process.env.SEARCH_SCORE_THRESHOLD || '0.7'); // Minimum dense similarity
+const RERANK_SCORE_THRESHOLD = parseFloat(process.env.RERANK_SCORE_THRESHOLD || '0'); // Minimum reranker score
+const HYBRID_CANDIDATE_FACTOR = 4; // Each side fetches limit * factor candidates before fusion
+
+type SearchMode = typeof SEARCH_MODES[number];
+
+interface SearchHit {
+  id: string | number; // Prefixed with the collection, so hits from several collections can be fused
+  pointId: string | number;
+  score: number;
+  payload?: Record<string, unknown> | null;
+  collection: string;
+}
+
+interface SearchScope {
+  filter?: SearchFilter;
+  urlPrefix?: string; // Checked on the hits too, as the filter's substring match is looser
+  latestOnly: boolean; // Restrict versioned documentation to the latest version of each product
+  metadataKeys: string[];
+  scoreThreshold?: number; // Minimum similarity of the first stage, overriding the collections' thresholds
+  rerankThreshold?: number; // Minimum reranker score, overriding the collections' thresholds
+  reranker?: Reranker;
+  rerankCandidates: number;
+}
+
+interface QueryVectors {
+  dense?: number[];
+  sparse?: SparseVector;
+}
 
 export class SearchDocumentationHandler extends BaseHandler {
   async handle(args: any): Promise<McpToolResponse> {
@@ -11,34 +46,54 @@ export class SearchDocumentationHandler extends BaseHandler {
     }
 
     const limit = args.limit || 5;
+    const mode: SearchMode = args.mode || 'hybrid';
+    if (!SEARCH_MODES.includes(mode)) {
+      throw new McpError(ErrorCode.InvalidParams, `mode must be one of: ${SEARCH_MODES.join(', ')}`);
+    }
+
+    const filter = buildSearchFilter(args);
+    const urlPrefix = getUrlPrefix(args);
+    const latestOnly = wantsLatestVersion(args);
+    // Similarity and reranker scores are on different scales, so each has its own threshold
+    const scoreThreshold = args.score_threshold;
+    const rerankThreshold = args.rerank_threshold;
+    for (const [name, value] of [['score_threshold', scoreThreshold], ['rerank_threshold', rerankThreshold]]) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+        throw new McpError(ErrorCode.InvalidParams, `${name} must be a number between 0 and 1`);
+      }
+    }
+    const reranker = this.getReranker(args.rerank);
+    const rerankCandidates = args.rerank_candidates ?? Math.max(RERANK_CANDIDATES, limit);
+    if (reranker && (!Number.isInteger(rerankCandidates) || rerankCandidates < limit || rerankCandidates > MAX_RERANK_CANDIDATES)) {
+      throw new McpError(ErrorCode.InvalidParams, `rerank_candidates must be an integer between limit and ${MAX_RERANK_CANDIDATES}`);
+    }
 
     try {
-      const queryEmbedding = await this.apiClient.getEmbeddings(args.query);
-      
-      const searchResults = await this.apiClient.qdrantClient.search(COLLECTION_NAME, {
-        vector: queryEmbedding,
-        limit,
-        with_payload: true,
-        with_vector: false, // Optimize network transfer by not retrieving vectors
-        score_threshold: 0.7, // Only return relevant results
+      const collections = await this.resolveCollections(args.collection);
+      const metadataKeys = args.metadata ? Object.keys(args.metadata) : [];
+      const { hits: searchResults, note } = await this.search(args.query, mode, limit, collections, {
+        filter, urlPrefix, latestOnly, metadataKeys, scoreThreshold, rerankThreshold, reranker, rerankCandidates,
       });
 
-      const formattedResults = searchResults.map(result => {
-        if (!isDocumentPayload(result.payload)) {
-          throw new Error('Invalid payload type');
-        }
-        return `[${result.payload.title}](${result.payload.url})\nScore: ${result.score.toFixed(3)}\nContent: ${result.payload.text}\n`;
+      const results = searchResults.map(hit => this.toResult(hit));
+      const formattedResults = results.map(result => {
+        const section = result.headingPath ? `\nSection: ${result.headingPath}` : '';
+        const version = result.version
+          ? `\nVersion: ${result.product ? `${result.product} ` : ''}${result.version}`
+          : '';
+        const origin = collections.length > 1 ? `\nCollection: ${result.collection}` : '';
+        return `[${result.title}](${result.link})${section}${version}${origin}\nScore: ${result.score.toFixed(3)}\nContent: ${result.text}\n`;
       }).join('\n---\n');
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: formattedResults || 'No results found matching the query.',
-          },
-        ],
-      };
+      return this.respond<SearchOutput>(
+        args,
+        { query: args.query, results, note },
+        (note ? `${note}\n\n` : '') + (formattedResults || 'No results found matching the query.')
+      );
     } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
       if (error instanceof Error) {
         if (error.message.includes('unauthorized')) {
           throw new McpError(
@@ -52,15 +107,215 @@ export class SearchDocumentationHandler extends BaseHandler {
           );
         }
       }
+      return this.respondError(args, `Search failed: ${error}`);
+    }
+  }
+
+  // `rerank` is true for the reranker configured with RERANK_PROVIDER, or the name of a reranker
+  private getReranker(rerank: unknown): Reranker | undefined {
+    if (rerank === undefined || rerank === false) {
+      return undefined;
+    }
+    if (rerank !== true && !RERANKER_NAMES.includes(rerank as RerankerName)) {
+      throw new McpError(ErrorCode.InvalidParams, `rerank must be a boolean or one of: ${RERANKER_NAMES.join(', ')}`);
+    }
+    return createReranker(rerank as RerankerName | true);
+  }
+
+  private toResult(hit: SearchHit): SearchResult {
+    if (!isDocumentPayload(hit.payload)) {
+      throw new Error('Invalid payload type');
+    }
+    const payload = hit.payload;
+    return {
+      id: hit.pointId,
+      collection: hit.collection,
+      score: hit.score,
+      url: payload.url,
+      link: this.sourceLink(payload),
+      title: payload.title,
+      headingPath: payload.headingPath,
+      text: payload.text,
+      version: payload.version,
+      product: payload.product,
+      tags: payload.tags?.length ? payload.tags : undefined,
+      page: payload.page,
+      line: payload.line,
+    };
+  }
+
+  // PDF viewers open `#page=N` at that page; repository file views highlight `#L<line>`
+  private sourceLink(payload: DocumentPayload): string {
+    if (typeof payload.page === 'number') {
+      return `${payload.url}#page=${payload.page}`;
+    }
+    if (typeof payload.line === 'number') {
+      return `${payload.url}#L${payload.line}`;
+    }
+    return payload.url;
+  }
+
+  // `collection` may be a single name, a list of names, or '*' for every collection
+  private async resolveCollections(collection: unknown): Promise<string[]> {
+    if (collection === ALL_COLLECTIONS) {
+      const names = await this.apiClient.listCollectionNames();
+      if (names.length === 0) {
+        throw new McpError(ErrorCode.InvalidRequest, 'No collections exist yet. Add documentation first.');
+      }
+      return names;
+    }
+
+    const requested = Array.isArray(collection) ? collection : [collection];
+    const names = Array.from(new Set(requested.map(name => this.apiClient.resolveCollectionName(name))));
+    for (const name of names) {
+      await this.apiClient.requireCollection(name);
+    }
+    return names;
+  }
+
+  private async search(
+    query: string,
+    mode: SearchMode,
+    limit: number,
+    collections: string[],
+    scope: SearchScope
+  ): Promise<{ hits: SearchHit[]; note?: string }> {
+    const keywordCapable = new Map<string, boolean>();
+    const filters = new Map<string, SearchFilter | undefined>();
+    const settings = new Map<string, CollectionSearchSettings>();
+    for (const collection of collections) {
+      settings.set(collection, await this.apiClient.getSearchSettings(collection));
+      keywordCapable.set(collection, await this.apiClient.hasSparseVectors(collection));
+      // Query embeddings are only comparable with vectors from the same model; keyword search doesn't care
+      if (mode !== 'keyword') {
+        await this.apiClient.checkEmbeddingModel(collection);
+      }
+      if (scope.filter || scope.latestOnly) {
+        await this.apiClient.ensurePayloadIndexes(collection, scope.metadataKeys);
+      }
+      filters.set(collection, scope.latestOnly ? await this.withLatestVersions(collection, scope.filter) : scope.filter);
+    }
+    if (mode === 'keyword' && !collections.some(collection => keywordCapable.get(collection))) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Collection${collections.length > 1 ? 's' : ''} ${collections.join(', ')} ${collections.length > 1 ? 'were' : 'was'} created without keyword vectors. Re-index to use keyword search.`
+      );
+    }
+
+    // Embed the query once and reuse it for every collection
+    const vectors: QueryVectors = {
+      dense: mode === 'keyword' ? undefined : await this.apiClient.getEmbeddings(query),
+      sparse: mode === 'semantic' ? undefined : buildQuerySparseVector(query),
+    };
+
+    // The reranker sees the best candidates of the first stage, so only an explicit similarity threshold applies to them
+    const candidates = scope.reranker ? scope.rerankCandidates : mode === 'hybrid' ? limit * HYBRID_CANDIDATE_FACTOR : limit;
+    const rankedLists: SearchHit[][] = [];
+    for (const collection of collections) {
+      if (vectors.dense) {
+        const threshold = scope.reranker
+          ? scope.scoreThreshold
+          : scope.scoreThreshold ?? settings.get(collection)?.scoreThreshold ?? SEARCH_SCORE_THRESHOLD;
+        rankedLists.push(this.withinUrlPrefix(await this.denseSearch(collection, vectors.dense, candidates, filters.get(collection), threshold), scope.urlPrefix));
+      }
+      if (vectors.sparse && keywordCapable.get(collection)) {
+        rankedLists.push(this.withinUrlPrefix(await this.keywordSearch(collection, vectors.sparse, candidates, filters.get(collection)), scope.urlPrefix));
+      }
+    }
+
+    // Cosine scores are comparable across collections; rank fusion is needed once keyword lists are involved
+    const ranked = mode === 'semantic' || rankedLists.length === 1
+      ? rankedLists.flat().sort((a, b) => b.score - a.score)
+      : reciprocalRankFusion(rankedLists);
+    if (!scope.reranker) {
+      return { hits: ranked.slice(0, limit) };
+    }
+    return this.rerank(query, ranked.slice(0, scope.rerankCandidates), limit, scope, settings);
+  }
+
+  /**
+   * Rescores the candidates with the reranker and keeps those above the
+   * threshold. If the reranker fails, the first-stage order is returned with
+   * a note, as those results are still useful.
+   */
+  private async rerank(
+    query: string,
+    candidates: SearchHit[],
+    limit: number,
+    scope: SearchScope,
+    settings: Map<string, CollectionSearchSettings>
+  ): Promise<{ hits: SearchHit[]; note?: string }> {
+    const reranker = scope.reranker!;
+    const name = reranker.model ? `${reranker.name}/${reranker.model}` : reranker.name;
+    if (candidates.length === 0) {
+      return { hits: [] };
+    }
+    let scores: number[];
+    try {
+      // The title and section often say what a chunk is about better than its text does
+      scores = await reranker.rerank(query, candidates.map(hit => {
+        const payload = hit.payload as Partial<DocumentPayload>;
+        return [payload.title, payload.headingPath, payload.text].filter(Boolean).join('\n');
+      }));
+    } catch (error) {
+      console.error(`Reranking with ${name} failed:`, error);
       return {
-        content: [
-          {
-            type: 'text',
-            text: `Search failed: ${error}`,
-          },
-        ],
-        isError: true,
+        hits: candidates.slice(0, limit),
+        note: `Reranking with ${name} failed (${error instanceof Error ? error.message : error}); results are in retrieval order.`,
       };
     }
+    const hits = candidates
+      .map((hit, i) => ({ ...hit, score: scores[i] }))
+      .filter(hit => hit.score >= (scope.rerankThreshold ?? settings.get(hit.collection)?.rerankThreshold ?? RERANK_SCORE_THRESHOLD))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    return { hits, note: `Reranked ${candidates.length} candidates with ${name}.` };
+  }
+
+  // Versions differ between collections, so the latest ones are looked up for each
+  private async withLatestVersions(collection: string, filter?: SearchFilter): Promise<SearchFilter | undefined> {
+    let versionsByProduct: Map<string | undefined, string[]>;
+    try {
+      versionsByProduct = await this.apiClient.getVersionsByProduct(collection);
+    } catch (error) {
+      console.warn(`Could not determine the latest versions in '${collection}', searching all of them:`, error);
+      return filter;
+    }
+    return restrictToLatestVersions(filter, versionsByProduct);
+  }
+
+  private async denseSearch(collection: string, vector: number[], limit: number, filter?: SearchFilter, scoreThreshold?: number): Promise<SearchHit[]> {
+    const hits = await this.apiClient.qdrantClient.search(collection, {
+      vector,
+      limit,
+      filter,
+      with_payload: true,
+      with_vector: false, // Optimize network transfer by not retrieving vectors
+      score_threshold: scoreThreshold,
+    });
+    return this.tagHits(collection, hits);
+  }
+
+  private async keywordSearch(collection: string, vector: SparseVector, limit: number, filter?: SearchFilter): Promise<SearchHit[]> {
+    if (vector.indices.length === 0) {
+      return []; // Query consists only of stop words or punctuation
+    }
+    const hits = await this.apiClient.qdrantClient.search(collection, {
+      vector: { name: SPARSE_VECTOR_NAME, vector },
+      limit,
+      filter,
+      with_payload: true,
+      with_vector: false,
+    });
+    return this.tagHits(collection, hits);
+  }
+
+  private withinUrlPrefix(hits: SearchHit[], prefix?: string): SearchHit[] {
+    return prefix ? hits.filter(hit => typeof hit.payload?.url === 'string' && hit.payload.url.startsWith(prefix)) : hits;
+  }
+
+  // Point IDs are only unique within a collection, so prefix them before fusing lists
+  private tagHits(collection: string, hits: Omit<SearchHit, 'collection' | 'pointId'>[]): SearchHit[] {
+    return hits.map(hit => ({ ...hit, id: `${collection}:${hit.id}`, pointId: hit.id, collection }));
   }
-}
\ No newline at end of file
+}
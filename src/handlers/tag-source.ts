@@ -0,0 +1,82 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { LabelUpdateOutput, LabelledSource, McpToolResponse, SourceMetadata } from '../types.js';
+import { describeSourceMetadata } from '../source-metadata.js';
+
+export class TagSourceHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!Array.isArray(args.urls) || args.urls.length === 0 || !args.urls.every((url: unknown) => typeof url === 'string')) {
+      throw new McpError(ErrorCode.InvalidParams, 'urls must be a non-empty array of strings');
+    }
+    const labels = this.getSourceMetadata(args);
+    if (!labels) {
+      throw new McpError(ErrorCode.InvalidParams, 'Pass at least one of tags, version, product or metadata');
+    }
+
+    const collection = this.getCollectionName(args);
+    await this.apiClient.requireCollection(collection);
+    this.apiClient.assertWritable(collection);
+
+    try {
+      if (labels.metadata) {
+        await this.apiClient.ensurePayloadIndexes(collection, Object.keys(labels.metadata));
+      }
+      const updated: string[] = [];
+      const labelled: LabelledSource[] = [];
+      const missing: string[] = [];
+
+      for (const url of args.urls as string[]) {
+        const current = await this.apiClient.getSourceMetadata(collection, url);
+        if (!current) {
+          missing.push(url);
+          continue;
+        }
+        // Tags and metadata keys are added to the existing ones; version and product are replaced
+        const payload: SourceMetadata = { ...labels };
+        if (labels.tags) {
+          payload.tags = Array.from(new Set([...(current.tags || []), ...labels.tags]));
+        }
+        if (labels.metadata) {
+          payload.metadata = { ...current.metadata, ...labels.metadata };
+        }
+        // Only payload fields change, so nothing is re-embedded
+        await this.apiClient.qdrantClient.setPayload(collection, {
+          payload: { ...payload },
+          filter: { must: [{ key: 'url', match: { value: url } }] },
+          wait: true,
+        });
+        labelled.push({ url, ...current, ...payload });
+        updated.push(`- ${url}: ${describeSourceMetadata({ ...current, ...payload })}`);
+      }
+
+      const lines = [`Updated ${updated.length} source${updated.length === 1 ? '' : 's'} in '${collection}':`, ...updated];
+      if (missing.length > 0) {
+        lines.push(`Not indexed in '${collection}': ${missing.join(', ')}`);
+      }
+      return this.respond<LabelUpdateOutput>(
+        args,
+        { collection, updated: labelled, missing },
+        updated.length > 0 ? lines.join('\n') : `None of the URLs are indexed in '${collection}': ${missing.join(', ')}`,
+        updated.length === 0
+      );
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        if (error.message.includes('unauthorized')) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            'Failed to authenticate with Qdrant cloud while tagging documentation'
+          );
+        } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ETIMEDOUT')) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            'Connection to Qdrant cloud failed while tagging documentation'
+          );
+        }
+      }
+      return this.respondError(args, `Failed to tag sources: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { BaseHandler } from './base-handler.js';
+import { LabelUpdateOutput, LabelledSource, McpToolResponse, SourceMetadata } from '../types.js';
+import { METADATA_KEY_PATTERN, describeSourceMetadata, parseTags } from '../source-metadata.js';
+
+const REMOVABLE_FIELDS = ['tags', 'version', 'product', 'metadata'] as const;
+
+type RemovableField = typeof REMOVABLE_FIELDS[number];
+
+export class UntagSourceHandler extends BaseHandler {
+  async handle(args: any): Promise<McpToolResponse> {
+    if (!Array.isArray(args.urls) || args.urls.length === 0 || !args.urls.every((url: unknown) => typeof url === 'string')) {
+      throw new McpError(ErrorCode.InvalidParams, 'urls must be a non-empty array of strings');
+    }
+    const tags = args.tags === undefined ? [] : parseTags(args.tags);
+    if (args.fields !== undefined && (!Array.isArray(args.fields) || !args.fields.every((field: unknown) => typeof field === 'string'))) {
+      throw new McpError(ErrorCode.InvalidParams, 'fields must be an array of field names');
+    }
+    // `fields` names whole fields, or single metadata keys as "metadata.<key>"
+    const fields: RemovableField[] = [];
+    const metadataKeys: string[] = [];
+    for (const field of (args.fields || []) as string[]) {
+      if ((REMOVABLE_FIELDS as readonly string[]).includes(field)) {
+        fields.push(field as RemovableField);
+      } else if (field.startsWith('metadata.') && METADATA_KEY_PATTERN.test(field.slice('metadata.'.length))) {
+        metadataKeys.push(field.slice('metadata.'.length));
+      } else {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown field ${field}; use ${REMOVABLE_FIELDS.join(', ')} or metadata.<key>`);
+      }
+    }
+    if (tags.length === 0 && fields.length === 0 && metadataKeys.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'Pass tags to remove or fields to clear');
+    }
+
+    const collection = this.getCollectionName(args);
+    await this.apiClient.requireCollection(collection);
+    this.apiClient.assertWritable(collection);
+
+    try {
+      const updated: string[] = [];
+      const labelled: LabelledSource[] = [];
+      const missing: string[] = [];
+
+      for (const url of args.urls as string[]) {
+        const current = await this.apiClient.getSourceMetadata(collection, url);
+        if (!current) {
+          missing.push(url);
+          continue;
+        }
+        const filter = { must: [{ key: 'url', match: { value: url } }] };
+        const remaining: SourceMetadata = { ...current };
+        const cleared = new Set<RemovableField>(fields);
+        const payload: SourceMetadata = {};
+
+        if (tags.length > 0 && !cleared.has('tags')) {
+          remaining.tags = (current.tags || []).filter(tag => !tags.includes(tag));
+          payload.tags = remaining.tags;
+        }
+        if (metadataKeys.length > 0 && !cleared.has('metadata')) {
+          remaining.metadata = { ...current.metadata };
+          for (const key of metadataKeys) {
+            delete remaining.metadata[key];
+          }
+          if (Object.keys(remaining.metadata).length > 0) {
+            payload.metadata = remaining.metadata;
+          } else {
+            cleared.add('metadata');
+          }
+        }
+        for (const field of cleared) {
+          delete remaining[field];
+        }
+
+        if (Object.keys(payload).length > 0) {
+          await this.apiClient.qdrantClient.setPayload(collection, { payload: { ...payload }, filter, wait: true });
+        }
+        if (cleared.size > 0) {
+          await this.apiClient.qdrantClient.deletePayload(collection, { keys: Array.from(cleared), filter, wait: true });
+        }
+        labelled.push({ url, ...remaining });
+        updated.push(`- ${url}: ${describeSourceMetadata(remaining) || 'no labels left'}`);
+      }
+
+      const lines = [`Updated ${updated.length} source${updated.length === 1 ? '' : 's'} in '${collection}':`, ...updated];
+      if (missing.length > 0) {
+        lines.push(`Not indexed in '${collection}': ${missing.join(', ')}`);
+      }
+      return this.respond<LabelUpdateOutput>(
+        args,
+        { collection, updated: labelled, missing },
+        updated.length > 0 ? lines.join('\n') : `None of the URLs are indexed in '${collection}': ${missing.join(', ')}`,
+        updated.length === 0
+      );
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        if (error.message.includes('unauthorized')) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            'Failed to authenticate with Qdrant cloud while untagging documentation'
+          );
+        } else if (error.message.includes('ECONNREFUSED') || error.message.includes('ETIMEDOUT')) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            'Connection to Qdrant cloud failed while untagging documentation'
+          );
+        }
+      }
+      return this.respondError(args, `Failed to untag sources: ${error}`);
+    }
+  }
+}
@@ -3,11 +3,15 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ApiClient } from './api-client.js';
 import { HandlerRegistry } from './handler-registry.js';
+import { ResourceRegistry } from './resource-registry.js';
+import { PromptRegistry } from './prompt-registry.js';
 
 class RagDocsServer {
   private server: Server;
   private apiClient: ApiClient;
   private handlerRegistry: HandlerRegistry;
+  private resourceRegistry: ResourceRegistry;
+  private promptRegistry: PromptRegistry;
 
   constructor() {
     this.server = new Server(
@@ -18,12 +22,16 @@ class RagDocsServer {
       {
         capabilities: {
           tools: {},
+          resources: { listChanged: true },
+          prompts: {},
         },
       }
     );
 
     this.apiClient = new ApiClient();
     this.handlerRegistry = new HandlerRegistry(this.server, this.apiClient);
+    this.resourceRegistry = new ResourceRegistry(this.server, this.apiClient);
+    this.promptRegistry = new PromptRegistry(this.server, this.apiClient);
     
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
@@ -42,6 +50,23 @@ class RagDocsServer {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('RAG Docs MCP server running on stdio');
+
+    // Repair collections a previous run left half-changed, e.g. by stopping during a migration,
+    // before resumed background jobs write to them
+    this.apiClient.recoverCollections()
+      .catch(error =>
+        console.error('Could not check for interrupted collection changes:', error instanceof Error ? error.message : error)
+      )
+      .then(() => this.handlerRegistry.resumeJobs())
+      .catch(error =>
+        console.error('Could not resume background jobs:', error instanceof Error ? error.message : error)
+      );
+
+    // Measure the embedding vector size up front; if the provider isn't reachable yet,
+    // the first tool call that needs it tries again
+    this.apiClient.getVectorSize().catch(error =>
+      console.error('Could not detect the embedding vector size at startup:', error instanceof Error ? error.message : error)
+    );
   }
 }
 
@@ -0,0 +1,100 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Job, JobStatus } from './types.js';
+
+// Get current directory in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+export const JOBS_FILE = path.join(__dirname, '..', 'jobs.jsonl');
+
+// Finished jobs kept for get_job_status and list_jobs; older ones are dropped when a job starts
+const MAX_FINISHED_JOBS = parseInt(process.env.MAX_FINISHED_JOBS || '100', 10);
+
+export const JOB_STATUSES: JobStatus[] = ['running', 'completed', 'failed', 'cancelled'];
+
+export interface JobFilter {
+  status?: JobStatus;
+  tool?: string;
+}
+
+function matches(job: Job, filter: JobFilter): boolean {
+  return (!filter.status || job.status === filter.status) &&
+    (!filter.tool || job.tool === filter.tool);
+}
+
+/**
+ * Background jobs stored as one JSON object per line, written the same way
+ * as the queue: through a temporary file and a rename. Jobs still marked
+ * `running` when the server starts were interrupted and are resumed by the
+ * JobManager.
+ */
+export class JobStore {
+  private file: string;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string = JOBS_FILE) {
+    this.file = file;
+  }
+
+  async list(filter: JobFilter = {}): Promise<Job[]> {
+    return this.update(jobs => jobs.filter(job => matches(job, filter)), false);
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    return this.update(jobs => jobs.find(job => job.id === id), false);
+  }
+
+  // Adds or replaces a job with a copy of its current state
+  async put(job: Job): Promise<void> {
+    const copy = { ...job };
+    await this.update(jobs => {
+      const index = jobs.findIndex(candidate => candidate.id === copy.id);
+      if (index >= 0) {
+        jobs[index] = copy;
+        return;
+      }
+      jobs.push(copy);
+      const finished = jobs.filter(candidate => candidate.status !== 'running');
+      const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+      if (excess.size > 0) {
+        jobs.splice(0, jobs.length, ...jobs.filter(candidate => !excess.has(candidate)));
+      }
+    });
+  }
+
+  // Serialises all reads and writes so concurrent jobs cannot clobber each other
+  private update<T>(mutate: (jobs: Job[]) => T, write: boolean = true): Promise<T> {
+    const run = this.lock.then(async () => {
+      const jobs = await this.load();
+      const result = mutate(jobs);
+      if (write) {
+        await this.save(jobs);
+      }
+      return result;
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Job[]> {
+    try {
+      const content = await fs.readFile(this.file, 'utf-8');
+      return content
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => JSON.parse(line) as Job);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  private async save(jobs: Job[]): Promise<void> {
+    const tempFile = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, jobs.map(job => JSON.stringify(job)).join('\n') + (jobs.length > 0 ? '\n' : ''));
+    await fs.rename(tempFile, this.file);
+  }
+}
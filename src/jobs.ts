@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import { Job, JobCheckpoint, McpToolResponse } from './types.js';
+import { JobFilter, JobStore } from './job-store.js';
+import { ToolContext } from './tool-context.js';
+
+// Tools that accept `background: true`
+export const BACKGROUND_TOOLS = ['run_queue', 'crawl_documentation', 'add_directory', 'add_repository'];
+
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+// Runs a tool call as a job would: with the job's arguments and context
+export type JobRunner = (tool: string, args: any, context: ToolContext) => Promise<McpToolResponse>;
+
+/**
+ * Runs tool calls in the background and keeps their state in the job store,
+ * so get_job_status can report on them after the call that started them has
+ * returned. Jobs that were running when the server stopped are resumed with
+ * the same arguments and their last checkpoint: run_queue continues with the
+ * items still pending, crawls and imports with the pages and files they had
+ * not got to. Work done after the last saved checkpoint is done again.
+ */
+export class JobManager {
+  private store: JobStore;
+  private runner: JobRunner;
+  private running = new Map<string, { job: Job; controller: AbortController }>(); // Jobs of this process
+
+  constructor(runner: JobRunner, store: JobStore = new JobStore()) {
+    this.runner = runner;
+    this.store = store;
+  }
+
+  // Starts a job and returns it without waiting for it to finish
+  async start(tool: string, args: any = {}): Promise<Job> {
+    const { background, output_format, ...jobArgs } = args;
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      tool,
+      args: jobArgs,
+      status: 'running',
+      progress: 0,
+      resumed: 0,
+      createdAt: now,
+      startedAt: now,
+      updatedAt: now,
+    };
+    await this.store.put(job);
+    this.run(job);
+    return publicJob(job);
+  }
+
+  // Continues the jobs that were running when the server last stopped
+  async resumeInterrupted(): Promise<void> {
+    const interrupted = (await this.store.list({ status: 'running' })).filter(job => !this.running.has(job.id));
+    for (const job of interrupted) {
+      const now = new Date().toISOString();
+      if (job.cancelRequested) {
+        Object.assign(job, { status: 'cancelled', updatedAt: now, finishedAt: now });
+        await this.store.put(job);
+        continue;
+      }
+      console.error(`Resuming ${job.tool} job ${job.id}, interrupted when the server stopped.`);
+      Object.assign(job, { progress: job.checkpoint?.progress ?? 0, resumed: job.resumed + 1, startedAt: now, updatedAt: now });
+      delete job.message;
+      await this.store.put(job);
+      this.run(job);
+    }
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    const live = this.running.get(id);
+    const job = live ? live.job : await this.store.get(id);
+    return job && publicJob(job);
+  }
+
+  // Newest first
+  async list(filter: JobFilter = {}): Promise<Job[]> {
+    const jobs = (await this.store.list(filter)).map(job => {
+      const live = this.running.get(job.id);
+      return publicJob(live ? live.job : job);
+    });
+    return jobs.reverse();
+  }
+
+  // Asks a running job to stop after the item in hand; returns undefined for unknown IDs
+  async cancel(id: string): Promise<Job | undefined> {
+    const live = this.running.get(id);
+    if (!live) {
+      const job = await this.store.get(id);
+      return job && publicJob(job);
+    }
+    live.job.cancelRequested = true;
+    live.job.updatedAt = new Date().toISOString();
+    await this.store.put(live.job);
+    live.controller.abort();
+    return publicJob(live.job);
+  }
+
+  private run(job: Job): void {
+    this.execute(job).catch(error =>
+      console.error(`Failed to record the state of job ${job.id}:`, error instanceof Error ? error.message : error)
+    );
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.id, { job, controller });
+
+    // Progress and checkpoints are saved at most once a second; get_job_status reads running jobs from memory
+    let lastSaved = Date.now();
+    const save = () => {
+      job.updatedAt = new Date().toISOString();
+      if (Date.now() - lastSaved >= PROGRESS_SAVE_INTERVAL_MS) {
+        lastSaved = Date.now();
+        this.store.put(job).catch(error =>
+          console.error(`Failed to save the progress of job ${job.id}:`, error instanceof Error ? error.message : error)
+        );
+      }
+    };
+    const onProgress = (progress: number, total?: number, message?: string) => {
+      job.progress = progress;
+      job.total = total;
+      job.message = message;
+      save();
+    };
+    const onCheckpoint = (checkpoint: JobCheckpoint) => {
+      job.checkpoint = checkpoint;
+      save();
+    };
+    const context = new ToolContext(undefined, undefined, controller.signal, onProgress, job.checkpoint, onCheckpoint);
+
+    try {
+      const response = await this.runner(job.tool, { ...job.args, output_format: 'json' }, context);
+      const text = response.content[0].text;
+      const output = JSON.parse(text);
+      job.result = output;
+      // A crawl cancelled before its first page reports an error, but the job was cancelled, not failed
+      if (controller.signal.aborted) {
+        job.status = 'cancelled';
+      } else if (response.isError) {
+        job.status = 'failed';
+        job.error = typeof output?.error === 'string' ? output.error : text;
+      } else {
+        job.status = 'completed';
+      }
+    } catch (error) {
+      console.error(`${job.tool} job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    delete job.checkpoint;
+    job.finishedAt = job.updatedAt = new Date().toISOString();
+    try {
+      await this.store.put(job);
+    } finally {
+      this.running.delete(job.id);
+    }
+  }
+}
+
+// A copy of a job for the job tools, without the checkpoint only the job itself needs
+function publicJob(job: Job): Job {
+  const { checkpoint, ...rest } = job;
+  return rest;
+}
+
+// One job as a few readable lines, for the text output of the job tools
+export function formatJob(job: Job): string {
+  const progress = `${Math.floor(job.progress)}${job.total !== undefined ? ` of ${job.total}` : ''}`;
+  let text = `[${job.status}] ${job.tool} job ${job.id}\n    progress: ${progress}${job.message ? ` (${job.message})` : ''}`;
+  const seconds = ((job.finishedAt ? Date.parse(job.finishedAt) : Date.now()) - Date.parse(job.startedAt)) / 1000;
+  text += job.finishedAt
+    ? `\n    started ${job.startedAt}, finished ${job.finishedAt} after ${seconds.toFixed(1)}s`
+    : `\n    started ${job.startedAt}, running for ${seconds.toFixed(1)}s`;
+  if (job.resumed > 0) {
+    text += `\n    resumed ${job.resumed} time${job.resumed === 1 ? '' : 's'} after a server restart (created ${job.createdAt})`;
+  }
+  if (job.cancelRequested && job.status === 'running') {
+    text += '\n    cancellation requested';
+  }
+  if (job.error) {
+    text += `\n    error: ${job.error}`;
+  }
+  return text;
+}
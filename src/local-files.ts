@@ -0,0 +1,233 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { globToRegExp } from './url-utils.js';
+
+// Directories local files may be read from, separated like PATH; defaults to the working directory
+export const LOCAL_ALLOWED_ROOTS = (process.env.LOCAL_ALLOWED_ROOTS || '')
+  .split(path.delimiter)
+  .filter(root => root.trim())
+  .map(root => path.resolve(root.trim()));
+if (LOCAL_ALLOWED_ROOTS.length === 0) {
+  LOCAL_ALLOWED_ROOTS.push(path.resolve('.'));
+}
+
+export type LocalFileFormat = 'markdown' | 'html' | 'rst' | 'asciidoc' | 'text' | 'pdf';
+
+const FORMATS_BY_EXTENSION: Record<string, LocalFileFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.mdx': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.rst': 'rst',
+  '.adoc': 'asciidoc',
+  '.asciidoc': 'asciidoc',
+  '.asc': 'asciidoc',
+  '.txt': 'text',
+  '.text': 'text',
+  '.pdf': 'pdf',
+};
+
+export interface WalkOptions {
+  filter: (relativePath: string) => boolean;
+  maxFiles: number;
+}
+
+export interface WalkResult {
+  files: string[]; // Absolute paths, in directory order
+  unsupported: number; // Files skipped because their format is not recognised
+  truncated: boolean;
+}
+
+interface IgnoreRule {
+  base: string; // Directory of the .gitignore, relative to the walk root ('' for the root)
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+export function detectFormat(filePath: string): LocalFileFormat | undefined {
+  return FORMATS_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+}
+
+export function isFileUri(source: string): boolean {
+  return source.startsWith('file://');
+}
+
+export function toFileUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relativePath = path.relative(root, target);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+}
+
+async function realRoots(): Promise<string[]> {
+  const roots = await Promise.all(LOCAL_ALLOWED_ROOTS.map(root => fs.realpath(root).catch(() => undefined)));
+  return roots.filter((root): root is string => root !== undefined);
+}
+
+/**
+ * Resolves a local path or file:// URI (relative paths against the working
+ * directory) to its real path, following symlinks, and rejects anything
+ * outside LOCAL_ALLOWED_ROOTS.
+ */
+export async function resolveAllowedPath(source: string): Promise<string> {
+  let resolvedPath: string;
+  try {
+    resolvedPath = isFileUri(source) ? fileURLToPath(source) : path.resolve(source);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid file URI: ${source}`);
+  }
+
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(resolvedPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new McpError(ErrorCode.InvalidParams, `Local path not found: ${resolvedPath}`);
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Cannot access local path ${resolvedPath}: ${error.message}`);
+  }
+
+  if (!(await realRoots()).some(root => isInside(root, realPath))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Access denied: ${resolvedPath} is outside the allowed directories (${LOCAL_ALLOWED_ROOTS.join(', ')}). Set LOCAL_ALLOWED_ROOTS to allow it.`
+    );
+  }
+  return realPath;
+}
+
+/**
+ * Filter over paths relative to a walked directory. Patterns containing a `/`
+ * match the whole relative path; others match the file name at any depth.
+ */
+export function createPathFilter(include: string[] = [], exclude: string[] = []): (relativePath: string) => boolean {
+  const compile = (pattern: string) => {
+    const regex = globToRegExp(pattern.replace(/^\.?\//, ''));
+    return pattern.includes('/')
+      ? (relativePath: string) => regex.test(relativePath)
+      : (relativePath: string) => regex.test(path.posix.basename(relativePath));
+  };
+  const includes = include.map(compile);
+  const excludes = exclude.map(compile);
+  return relativePath =>
+    (includes.length === 0 || includes.some(matches => matches(relativePath))) &&
+    !excludes.some(matches => matches(relativePath));
+}
+
+// --- .gitignore ---
+
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\([#!])/, '$1');
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.replace(/\/+$/, '');
+    }
+    if (!line) {
+      continue;
+    }
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+    rules.push({ base, regex: globToRegExp(pattern), negated, directoryOnly });
+  }
+  return rules;
+}
+
+// Later rules override earlier ones, and a negated rule re-includes what an earlier rule ignored
+function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const pathFromBase = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(pathFromBase)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Lists the documentation files below `root` in a stable order, honouring
+ * .gitignore files at every level. The .git directory is always skipped and
+ * symlinked directories are not followed; symlinked files are only listed
+ * when they point inside the allowed roots.
+ */
+export async function walkDirectory(root: string, options: WalkOptions): Promise<WalkResult> {
+  const result: WalkResult = { files: [], unsupported: 0, truncated: false };
+  const roots = await realRoots();
+
+  const walk = async (directory: string, inheritedRules: IgnoreRule[]): Promise<void> => {
+    const relativeDirectory = path.relative(root, directory).split(path.sep).join('/');
+    let rules = inheritedRules;
+    try {
+      const gitignore = await fs.readFile(path.join(directory, '.gitignore'), 'utf-8');
+      rules = [...inheritedRules, ...parseGitignore(gitignore, relativeDirectory)];
+    } catch {
+      // No .gitignore here
+    }
+
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (result.truncated) {
+        return;
+      }
+      const fullPath = path.join(directory, entry.name);
+      const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (entry.name !== '.git' && !isIgnored(rules, relativePath, true)) {
+          await walk(fullPath, rules);
+        }
+        continue;
+      }
+      if (entry.isSymbolicLink()) {
+        const target = await fs.realpath(fullPath).catch(() => undefined);
+        const stat = target ? await fs.stat(target).catch(() => undefined) : undefined;
+        if (!target || !stat?.isFile() || !roots.some(root => isInside(root, target))) {
+          continue;
+        }
+      } else if (!entry.isFile() || entry.name === '.gitignore') {
+        continue;
+      }
+
+      if (isIgnored(rules, relativePath, false) || !options.filter(relativePath)) {
+        continue;
+      }
+      if (!detectFormat(entry.name)) {
+        result.unsupported++;
+        continue;
+      }
+      if (result.files.length >= options.maxFiles) {
+        result.truncated = true;
+        return;
+      }
+      result.files.push(fullPath);
+    }
+  };
+
+  await walk(root, []);
+  return result;
+}
@@ -0,0 +1,109 @@
+import type { ApiClient } from './api-client.js';
+import { MigrationStatus } from './types.js';
+import { SPARSE_VECTOR_NAME, buildDocumentSparseVector } from './sparse-vectors.js';
+
+const MIGRATION_PAGE_SIZE = 100;
+
+/**
+ * Re-embeds every chunk of a collection with the configured embedding model.
+ * Chunks are copied, with their IDs and payloads unchanged, into a new
+ * physical collection in the background; only when every chunk has been
+ * re-embedded is the collection name switched over to it. A failed run
+ * leaves the original collection untouched.
+ */
+export class EmbeddingMigrator {
+  private apiClient: ApiClient;
+  private statuses = new Map<string, MigrationStatus>(); // Latest run per collection
+
+  constructor(apiClient: ApiClient) {
+    this.apiClient = apiClient;
+  }
+
+  isRunning(collection: string): boolean {
+    return this.statuses.get(collection)?.state === 'running';
+  }
+
+  getStatus(collection: string): MigrationStatus | undefined {
+    return this.statuses.get(collection);
+  }
+
+  // Starts a migration and returns its initial status without waiting for it to finish
+  async start(collection: string): Promise<MigrationStatus> {
+    if (this.isRunning(collection)) {
+      return this.statuses.get(collection)!;
+    }
+    const tag = await this.apiClient.getEmbeddingTag(collection);
+    const status: MigrationStatus = {
+      collection,
+      state: 'running',
+      from: tag ? `${tag.provider}/${tag.model}` : 'unknown model',
+      to: this.apiClient.describeEmbeddingModel(),
+      migrated: 0,
+      total: 0,
+      startedAt: new Date().toISOString(),
+    };
+    this.statuses.set(collection, status);
+
+    this.run(status).catch(error => {
+      console.error(`Migration of collection '${collection}' failed:`, error);
+      status.state = 'failed';
+      status.error = error instanceof Error ? error.message : String(error);
+      status.finishedAt = new Date().toISOString();
+    });
+    return status;
+  }
+
+  private async run(status: MigrationStatus) {
+    const { collection } = status;
+    const qdrant = this.apiClient.qdrantClient;
+    const vectorSize = await this.apiClient.getVectorSize();
+    status.total = (await qdrant.count(collection, { exact: true })).count;
+
+    const target = await this.apiClient.createPhysicalCollection(collection, vectorSize);
+    console.error(`Migrating collection '${collection}' (${status.total} chunks) into '${target}'...`);
+
+    try {
+      let offset: string | number | null | undefined = null;
+      do {
+        const page = await qdrant.scroll(collection, {
+          limit: MIGRATION_PAGE_SIZE,
+          with_payload: true,
+          with_vector: false,
+          offset: offset ?? undefined,
+        });
+        const points = page.points.filter(point => typeof point.payload?.text === 'string');
+        const texts = points.map(point => point.payload!.text as string);
+        const embeddings = await this.apiClient.getEmbeddingsBatch(texts);
+
+        if (points.length > 0) {
+          await qdrant.upsert(target, {
+            wait: true,
+            points: points.map((point, index) => ({
+              id: point.id,
+              vector: { '': embeddings[index], [SPARSE_VECTOR_NAME]: buildDocumentSparseVector(texts[index]) },
+              payload: point.payload!,
+            })),
+          });
+        }
+        status.migrated += page.points.length;
+        offset = page.next_page_offset as string | number | null | undefined;
+      } while (offset !== null && offset !== undefined);
+    } catch (error) {
+      // Leave the original collection in place and drop the partial copy
+      await qdrant.deleteCollection(target).catch(() => undefined);
+      throw error;
+    }
+
+    // The copy is complete, so it is kept even if the switch fails part-way
+    try {
+      await this.apiClient.switchCollection(collection, target);
+    } catch (error) {
+      throw new Error(`Re-embedded chunks are in '${target}', but switching '${collection}' to it failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    await this.apiClient.setEmbeddingTag(collection, vectorSize);
+    status.state = 'completed';
+    status.finishedAt = new Date().toISOString();
+    console.error(`Migration of collection '${collection}' to ${status.to} completed.`);
+  }
+}
@@ -0,0 +1,244 @@
+import { parse as parseYaml } from 'yaml';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+const MAX_SCHEMA_DEPTH = 3; // Deeper objects are shown as their type name only
+const MAX_SCHEMA_PROPERTIES = 30;
+
+export interface ApiSpec {
+  title: string;
+  version?: string;
+  specVersion: string; // "2.0" or "3.x.y"
+  operations: ApiOperation[];
+}
+
+export interface ApiOperation {
+  method: string; // Upper case, e.g. "GET"
+  path: string;
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+  deprecated: boolean;
+  text: string; // Human-readable description of the whole operation
+}
+
+type Json = Record<string, any>;
+
+// Accepts either JSON or YAML; YAML is a superset of JSON, but JSON.parse is much faster
+export function parseSpecDocument(content: string): Json {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch {
+    document = parseYaml(content);
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('The document is not a JSON or YAML object');
+  }
+  return document as Json;
+}
+
+function resolvePointer(spec: Json, ref: string): unknown {
+  if (!ref.startsWith('#/')) {
+    return undefined; // References to other files are not followed
+  }
+  let current: any = spec;
+  for (const rawPart of ref.slice(2).split('/')) {
+    const part = decodeURIComponent(rawPart).replace(/~1/g, '/').replace(/~0/g, '~');
+    current = current?.[part];
+    if (current === undefined) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// Follows $ref chains (e.g. to a shared parameter or response) to the referenced object
+function deref(spec: Json, value: any, depth = 0): any {
+  if (value && typeof value.$ref === 'string' && depth < 10) {
+    const resolved = resolvePointer(spec, value.$ref);
+    return resolved === undefined ? value : deref(spec, resolved, depth + 1);
+  }
+  return value;
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop() || ref;
+}
+
+/**
+ * Compact, TypeScript-like rendering of a JSON schema, e.g.
+ * `Pet { id: integer<int64> (required), tags: string[] }`. Named schemas are
+ * expanded once per branch, so recursive schemas terminate.
+ */
+function renderSchema(spec: Json, schema: any, depth: number = 0, seen: Set<string> = new Set()): string {
+  if (!schema || typeof schema !== 'object') {
+    return 'any';
+  }
+  if (typeof schema.$ref === 'string') {
+    const name = refName(schema.$ref);
+    const resolved = resolvePointer(spec, schema.$ref);
+    if (resolved === undefined || seen.has(schema.$ref) || depth >= MAX_SCHEMA_DEPTH) {
+      return name;
+    }
+    const rendered = renderSchema(spec, resolved, depth, new Set(seen).add(schema.$ref));
+    return rendered.startsWith('{') ? `${name} ${rendered}` : rendered;
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((part: any) => renderSchema(spec, part, depth, seen)).join(' & ');
+  }
+  for (const key of ['oneOf', 'anyOf']) {
+    if (Array.isArray(schema[key])) {
+      return schema[key].map((part: any) => renderSchema(spec, part, depth, seen)).join(' | ');
+    }
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  let rendered: string;
+  if (type === 'array' || schema.items) {
+    const items = renderSchema(spec, schema.items, depth + 1, seen);
+    rendered = /[\s|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+  } else if (type === 'object' || schema.properties || schema.additionalProperties) {
+    if (depth >= MAX_SCHEMA_DEPTH) {
+      return 'object';
+    }
+    const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const entries = Object.entries<any>(schema.properties || {});
+    const fields = entries.slice(0, MAX_SCHEMA_PROPERTIES).map(([name, property]) =>
+      `${name}: ${renderSchema(spec, property, depth + 1, seen)}${required.has(name) ? ' (required)' : ''}`
+    );
+    if (entries.length > MAX_SCHEMA_PROPERTIES) {
+      fields.push(`... ${entries.length - MAX_SCHEMA_PROPERTIES} more`);
+    }
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      fields.push(`[key: string]: ${renderSchema(spec, schema.additionalProperties, depth + 1, seen)}`);
+    }
+    rendered = fields.length > 0 ? `{ ${fields.join(', ')} }` : 'object';
+  } else {
+    rendered = type || 'any';
+    if (schema.format) {
+      rendered += `<${schema.format}>`;
+    }
+  }
+  if (Array.isArray(schema.enum)) {
+    rendered += ` (one of: ${schema.enum.map((value: unknown) => JSON.stringify(value)).join(', ')})`;
+  }
+  if (schema.nullable === true) {
+    rendered += ' | null';
+  }
+  return rendered;
+}
+
+function oneLine(text: unknown): string | undefined {
+  return typeof text === 'string' && text.trim() ? text.replace(/\s+/g, ' ').trim() : undefined;
+}
+
+// Operation parameters override path-level ones with the same name and location
+function collectParameters(spec: Json, pathItem: Json, operation: Json): Json[] {
+  const byKey = new Map<string, Json>();
+  for (const raw of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+    const parameter = deref(spec, raw);
+    if (parameter && typeof parameter === 'object' && parameter.name) {
+      byKey.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+function renderParameter(spec: Json, parameter: Json): string {
+  // OpenAPI 3 keeps the type in `schema`; Swagger 2 puts it on the parameter itself
+  const schema = parameter.schema ?? parameter;
+  const details = [parameter.in, parameter.required ? 'required' : undefined, renderSchema(spec, schema, 1)]
+    .filter(Boolean)
+    .join(', ');
+  const description = oneLine(parameter.description);
+  return `- ${parameter.name} (${details})${description ? `: ${description}` : ''}`;
+}
+
+function renderContent(spec: Json, content: Json | undefined): string[] {
+  return Object.entries<any>(content || {}).map(([mediaType, media]) =>
+    `${mediaType}: ${media?.schema ? renderSchema(spec, media.schema) : 'any'}`
+  );
+}
+
+function renderOperation(spec: Json, method: string, path: string, pathItem: Json, operation: Json, isSwagger2: boolean): ApiOperation {
+  const upperMethod = method.toUpperCase();
+  const tags: string[] = Array.isArray(operation.tags) ? operation.tags.filter((tag: unknown) => typeof tag === 'string') : [];
+  const lines = [`${upperMethod} ${path}${operation.deprecated ? ' (deprecated)' : ''}`];
+  if (operation.operationId) lines.push(`Operation ID: ${operation.operationId}`);
+  const summary = oneLine(operation.summary);
+  if (summary) lines.push(`Summary: ${summary}`);
+  if (tags.length > 0) lines.push(`Tags: ${tags.join(', ')}`);
+  const description = typeof operation.description === 'string' ? operation.description.trim() : '';
+  if (description) lines.push('', description);
+
+  const parameters = collectParameters(spec, pathItem, operation);
+  const plainParameters = parameters.filter(parameter => parameter.in !== 'body');
+  if (plainParameters.length > 0) {
+    lines.push('', 'Parameters:', ...plainParameters.map(parameter => renderParameter(spec, parameter)));
+  }
+
+  // Swagger 2 describes the request body as an `in: body` parameter; OpenAPI 3 as `requestBody`
+  const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+  if (isSwagger2 && bodyParameter) {
+    const consumes: string[] = operation.consumes || spec.consumes || ['application/json'];
+    lines.push('', `Request body (${consumes.join(', ')})${bodyParameter.required ? ', required' : ''}:`,
+      renderSchema(spec, bodyParameter.schema));
+  } else if (operation.requestBody) {
+    const requestBody = deref(spec, operation.requestBody);
+    lines.push('', `Request body${requestBody?.required ? ', required' : ''}:`, ...renderContent(spec, requestBody?.content));
+  }
+
+  const responses = Object.entries<any>(operation.responses || {});
+  if (responses.length > 0) {
+    lines.push('', 'Responses:');
+    for (const [status, rawResponse] of responses) {
+      const response = deref(spec, rawResponse) || {};
+      const responseDescription = oneLine(response.description);
+      lines.push(`- ${status}${responseDescription ? `: ${responseDescription}` : ''}`);
+      const bodies = isSwagger2
+        ? (response.schema ? [renderSchema(spec, response.schema)] : [])
+        : renderContent(spec, response.content);
+      lines.push(...bodies.map(body => `  ${body}`));
+    }
+  }
+
+  return {
+    method: upperMethod,
+    path,
+    operationId: typeof operation.operationId === 'string' ? operation.operationId : undefined,
+    summary,
+    tags,
+    deprecated: operation.deprecated === true,
+    text: lines.join('\n'),
+  };
+}
+
+/**
+ * Reads an OpenAPI 3 or Swagger 2 document into one entry per operation.
+ * Local `$ref`s are resolved; references to other files are shown by name.
+ */
+export function extractOperations(spec: Json): ApiSpec {
+  const isSwagger2 = typeof spec.swagger === 'string' && spec.swagger.startsWith('2');
+  const isOpenApi3 = typeof spec.openapi === 'string' && spec.openapi.startsWith('3');
+  if (!isSwagger2 && !isOpenApi3) {
+    throw new Error('Not an OpenAPI 3 or Swagger 2 document (missing "openapi: 3.x" or "swagger: 2.0")');
+  }
+
+  const operations: ApiOperation[] = [];
+  for (const [path, rawPathItem] of Object.entries<any>(spec.paths || {})) {
+    const pathItem = deref(spec, rawPathItem);
+    if (!pathItem || typeof pathItem !== 'object') continue;
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method] && typeof pathItem[method] === 'object') {
+        operations.push(renderOperation(spec, method, path, pathItem, pathItem[method], isSwagger2));
+      }
+    }
+  }
+
+  return {
+    title: oneLine(spec.info?.title) || 'API reference',
+    version: oneLine(spec.info?.version),
+    specVersion: isSwagger2 ? spec.swagger : spec.openapi,
+    operations,
+  };
+}
@@ -0,0 +1,36 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorOutput, McpToolResponse, OutputFormat } from './types.js';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+export function getOutputFormat(args: any): OutputFormat {
+  const format = args?.output_format ?? 'text';
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new McpError(ErrorCode.InvalidParams, `output_format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Tool response in the format the call asked for: the text summary, or the
+ * data object pretty-printed as JSON. Both go out as a single text content
+ * item, as MCP clients read tool results that way.
+ */
+export function formatOutput(args: any, data: unknown, text: string, isError = false): McpToolResponse {
+  // A failure reported with the tool's usual data, e.g. a crawl that found no pages, still says why
+  const json = isError && data && typeof data === 'object' && !('error' in data) ? { ...data, error: text } : data;
+  return {
+    content: [
+      {
+        type: 'text',
+        text: getOutputFormat(args) === 'json' ? JSON.stringify(json, null, 2) : text,
+      },
+    ],
+    ...(isError ? { isError } : {}),
+  };
+}
+
+export function formatError(args: any, message: string): McpToolResponse {
+  const data: ErrorOutput = { error: message };
+  return formatOutput(args, data, message, true);
+}
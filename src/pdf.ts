@@ -0,0 +1,99 @@
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// A vertical gap this many times the line height between two lines starts a new paragraph
+const PARAGRAPH_GAP_FACTOR = 1.6;
+
+export interface PdfDocument {
+  title?: string; // From the document information dictionary, when set
+  pages: string[]; // Text of each page, paragraphs separated by blank lines
+}
+
+interface TextLine {
+  text: string;
+  y: number;
+  height: number;
+}
+
+export function isPdf(data: Uint8Array): boolean {
+  return data.length >= 5 && Buffer.from(data.subarray(0, 5)).toString('latin1') === '%PDF-';
+}
+
+// Joins lines into paragraphs, undoing hyphenation at line breaks
+function linesToText(lines: TextLine[]): string {
+  let text = '';
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (!previous) {
+      text = line.text;
+    } else if (previous.y - line.y > PARAGRAPH_GAP_FACTOR * Math.max(previous.height, line.height, 1)) {
+      text += `\n\n${line.text}`;
+    } else if (/[a-z]-$/.test(text) && /^[a-z]/.test(line.text)) {
+      text = text.slice(0, -1) + line.text;
+    } else {
+      text += `\n${line.text}`;
+    }
+  });
+  return text;
+}
+
+/**
+ * Extracts the text of a PDF page by page. Text items are grouped into lines
+ * by their baseline and lines into paragraphs by the spacing between them.
+ * Scanned PDFs without a text layer yield empty pages.
+ */
+export async function readPdf(data: Uint8Array): Promise<PdfDocument> {
+  const document = await getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: VerbosityLevel.ERRORS, // pdf.js logs warnings to stdout, which carries the MCP protocol
+  }).promise.catch(error => {
+    if (error?.name === 'PasswordException') {
+      throw new Error('The PDF is password-protected');
+    }
+    throw error;
+  });
+
+  try {
+    const metadata = await document.getMetadata().catch(() => undefined);
+    const info = metadata?.info as { Title?: unknown } | undefined;
+    const title = typeof info?.Title === 'string' && info.Title.trim() ? info.Title.trim() : undefined;
+
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lines: TextLine[] = [];
+      let current: TextLine | undefined;
+
+      for (const item of content.items) {
+        if (!('str' in item)) {
+          continue; // Marked content
+        }
+        const y = item.transform[5];
+        if (current && Math.abs(current.y - y) > Math.max(current.height, item.height, 1) / 2) {
+          lines.push(current);
+          current = undefined;
+        }
+        if (!current) {
+          current = { text: '', y, height: item.height };
+        }
+        current.text += item.str;
+        current.height = Math.max(current.height, item.height);
+        if (item.hasEOL) {
+          lines.push(current);
+          current = undefined;
+        }
+      }
+      if (current) {
+        lines.push(current);
+      }
+
+      pages.push(linesToText(lines.map(line => ({ ...line, text: line.text.trim() })).filter(line => line.text)));
+      page.cleanup();
+    }
+    return { title, pages };
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ApiClient } from './api-client.js';
+import { SearchDocumentationHandler } from './handlers/index.js';
+import { ErrorOutput, SearchOutput, SearchResult } from './types.js';
+
+const ANSWER_CONTEXT_LIMIT = 8;
+const SUMMARY_CONTEXT_LIMIT = 10;
+const COMPARISON_CONTEXT_LIMIT = 5; // Per side
+
+// Arguments shared by every prompt, passed through to search_documentation
+const SEARCH_ARGUMENTS = [
+  { name: 'collection', description: 'Collection to search, or "*" for all collections. Defaults to the default collection.' },
+  { name: 'product', description: 'Only use documentation of this product.' },
+  { name: 'version', description: 'Only use documentation of this version ("*" for all). Defaults to the latest version of each product.' },
+];
+
+const PROMPTS: Prompt[] = [
+  {
+    name: 'answer_with_citations',
+    description: 'Answer a question from the indexed documentation, citing the excerpts the answer is based on.',
+    arguments: [
+      { name: 'question', description: 'The question to answer.', required: true },
+      ...SEARCH_ARGUMENTS,
+    ],
+  },
+  {
+    name: 'summarize_topic',
+    description: 'Summarise what the indexed documentation says about a topic, product or library, and point out gaps.',
+    arguments: [
+      { name: 'topic', description: 'Topic, product or library to summarise, e.g. "authentication" or "react hooks".', required: true },
+      ...SEARCH_ARGUMENTS,
+    ],
+  },
+  {
+    name: 'compare_apis',
+    description: 'Compare two APIs, libraries or features side by side, based on the indexed documentation of each.',
+    arguments: [
+      { name: 'first', description: 'The first API, library or feature, e.g. "fetch".', required: true },
+      { name: 'second', description: 'The second one, e.g. "axios".', required: true },
+      { name: 'aspect', description: 'What to compare, e.g. "error handling" or "authentication". Defaults to an overall comparison.' },
+      ...SEARCH_ARGUMENTS,
+    ],
+  },
+];
+
+/**
+ * Serves prompt templates for common documentation tasks. Getting a prompt
+ * runs search_documentation and puts the numbered excerpts it finds into the
+ * prompt, so the model answers from them and cites them as [n].
+ */
+export class PromptRegistry {
+  private server: Server;
+  private searchHandler: SearchDocumentationHandler;
+
+  constructor(server: Server, apiClient: ApiClient) {
+    this.server = server;
+    this.searchHandler = new SearchDocumentationHandler(server, apiClient);
+    this.registerHandlers();
+  }
+
+  private registerHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS,
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const prompt = PROMPTS.find(candidate => candidate.name === request.params.name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+      }
+      const args = request.params.arguments || {};
+      for (const argument of prompt.arguments || []) {
+        if (argument.required && !args[argument.name]?.trim()) {
+          throw new McpError(ErrorCode.InvalidParams, `${argument.name} is required`);
+        }
+      }
+
+      switch (prompt.name) {
+        case 'answer_with_citations':
+          return this.answerWithCitations(args);
+        case 'summarize_topic':
+          return this.summarizeTopic(args);
+        default:
+          return this.compareApis(args);
+      }
+    });
+  }
+
+  private async answerWithCitations(args: Record<string, string>): Promise<GetPromptResult> {
+    const results = await this.search(args.question, ANSWER_CONTEXT_LIMIT, args);
+    return this.userMessage(`Answer from documentation: ${args.question}`, [
+      'Answer the question below using only the documentation excerpts provided.',
+      'Cite the excerpts you rely on as [n] after the sentence they support, and end with a list of the cited sources and their links.',
+      'If the excerpts do not answer the question, say so instead of guessing.',
+      '',
+      `Question: ${args.question}`,
+      '',
+      this.formatContext(results),
+    ]);
+  }
+
+  private async summarizeTopic(args: Record<string, string>): Promise<GetPromptResult> {
+    const results = await this.search(args.topic, SUMMARY_CONTEXT_LIMIT, args);
+    return this.userMessage(`Summary of the documentation on ${args.topic}`, [
+      `Summarise what the indexed documentation covers about ${args.topic}, based on the excerpts below.`,
+      'Group the summary by theme, cite the excerpts as [n], and list the sources with their links at the end.',
+      'Finish with the questions about the topic that these excerpts leave open, so the user knows what may be missing from the index.',
+      '',
+      this.formatContext(results),
+    ]);
+  }
+
+  private async compareApis(args: Record<string, string>): Promise<GetPromptResult> {
+    const aspect = args.aspect?.trim();
+    const [first, second] = await Promise.all([args.first, args.second].map(subject =>
+      this.search(aspect ? `${subject} ${aspect}` : subject, COMPARISON_CONTEXT_LIMIT, args)
+    ));
+    return this.userMessage(`Comparison of ${args.first} and ${args.second}`, [
+      `Compare ${args.first} and ${args.second}${aspect ? ` with regard to ${aspect}` : ''}, using only the documentation excerpts below.`,
+      'Cover their purpose, usage and notable differences, in a table where that helps, and cite the excerpts as [n].',
+      'Where the excerpts say nothing about one side, state that rather than filling the gap from memory.',
+      '',
+      `Documentation on ${args.first}:`,
+      '',
+      this.formatContext(first),
+      '',
+      `Documentation on ${args.second}:`,
+      '',
+      this.formatContext(second, first.length),
+    ]);
+  }
+
+  // Searches like a search_documentation call with the prompt's filter arguments
+  private async search(query: string, limit: number, args: Record<string, string>): Promise<SearchResult[]> {
+    const response = await this.searchHandler.handle({
+      query,
+      limit,
+      collection: args.collection || undefined,
+      product: args.product || undefined,
+      version: args.version || undefined,
+      output_format: 'json',
+    });
+    const output = JSON.parse(response.content[0].text) as SearchOutput | ErrorOutput;
+    if ('error' in output) {
+      throw new McpError(ErrorCode.InternalError, output.error);
+    }
+    return output.results;
+  }
+
+  // Numbered excerpts; `start` continues the numbering of an earlier block in the same prompt
+  private formatContext(results: SearchResult[], start: number = 0): string {
+    if (results.length === 0) {
+      return '(No matching documentation is indexed.)';
+    }
+    return results.map((result, i) => {
+      const section = result.headingPath ? ` > ${result.headingPath}` : '';
+      const version = result.version ? ` (${result.product ? `${result.product} ` : ''}${result.version})` : '';
+      return `[${start + i + 1}] ${result.title}${section}${version}\nSource: ${result.link}\n${result.text}`;
+    }).join('\n\n');
+  }
+
+  private userMessage(description: string, lines: string[]): GetPromptResult {
+    return {
+      description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        },
+      ],
+    };
+  }
+}
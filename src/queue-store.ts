@@ -0,0 +1,275 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { QueueItem, QueueItemStatus, SourceMetadata } from './types.js';
+import { DEFAULT_COLLECTION_NAME } from './api-client.js';
+
+// Get current directory in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+export const QUEUE_FILE = path.join(__dirname, '..', 'queue.jsonl');
+const LEGACY_QUEUE_FILE = path.join(__dirname, '..', 'queue.txt');
+
+// Retry configuration for failed items
+const QUEUE_MAX_ATTEMPTS = parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10);
+const QUEUE_RETRY_DELAY_MS = parseInt(process.env.QUEUE_RETRY_DELAY_MS || '5000', 10); // Doubles per attempt
+
+export const QUEUE_STATUSES: QueueItemStatus[] = ['pending', 'running', 'done', 'failed'];
+
+export interface QueueFilter {
+  status?: QueueItemStatus;
+  collection?: string;
+}
+
+export interface NewQueueEntry {
+  url: string;
+  collection: string;
+  ignoreRobots?: boolean;
+  metadata?: SourceMetadata;
+}
+
+function matches(item: QueueItem, filter: QueueFilter): boolean {
+  return (!filter.status || item.status === filter.status) &&
+    (!filter.collection || item.collection === filter.collection);
+}
+
+/**
+ * Persistent ingestion queue stored as one JSON object per line. Every change
+ * rewrites the file through a temporary file and a rename, so a crash never
+ * leaves a half-written queue; items left `running` by a crashed process are
+ * returned to `pending` the first time the queue is loaded.
+ */
+export class QueueStore {
+  private file: string;
+  private lock: Promise<unknown> = Promise.resolve();
+  private recovered = false;
+
+  constructor(file: string = QUEUE_FILE) {
+    this.file = file;
+  }
+
+  async list(filter: QueueFilter = {}): Promise<QueueItem[]> {
+    return this.update(items => items.filter(item => matches(item, filter)), false);
+  }
+
+  // Adds URLs, skipping ones already pending or running for the same collection.
+  // Items that previously finished or failed are re-queued.
+  async enqueue(entries: NewQueueEntry[], source: string): Promise<{ added: number; skipped: number }> {
+    return this.update(items => {
+      let added = 0;
+      let skipped = 0;
+      const now = new Date().toISOString();
+
+      for (const entry of entries) {
+        const existing = items.find(item => item.url === entry.url && item.collection === entry.collection);
+        if (existing && (existing.status === 'pending' || existing.status === 'running')) {
+          skipped++;
+          continue;
+        }
+        let item = existing;
+        if (item) {
+          Object.assign(item, { status: 'pending', attempts: 0, source, updatedAt: now });
+          delete item.lastError;
+          delete item.nextAttemptAt;
+          delete item.ignoreRobots;
+          delete item.metadata;
+        } else {
+          item = {
+            id: crypto.randomUUID(),
+            url: entry.url,
+            collection: entry.collection,
+            status: 'pending',
+            attempts: 0,
+            source,
+            addedAt: now,
+            updatedAt: now,
+          };
+          items.push(item);
+        }
+        if (entry.ignoreRobots) {
+          item.ignoreRobots = true;
+        }
+        if (entry.metadata) {
+          item.metadata = entry.metadata;
+        }
+        added++;
+      }
+      return { added, skipped };
+    });
+  }
+
+  // Marks the oldest pending item that is due (not waiting for a retry) as running
+  async claimNext(collection?: string): Promise<QueueItem | null> {
+    return this.update(items => {
+      const now = Date.now();
+      const item = items.find(candidate =>
+        matches(candidate, { status: 'pending', collection }) &&
+        (!candidate.nextAttemptAt || Date.parse(candidate.nextAttemptAt) <= now)
+      );
+      if (!item) {
+        return null;
+      }
+      item.status = 'running';
+      item.attempts++;
+      item.updatedAt = new Date().toISOString();
+      return { ...item };
+    });
+  }
+
+  // Milliseconds until the next pending item becomes due, or null if nothing is pending
+  async nextRetryDelay(collection?: string): Promise<number | null> {
+    const pending = await this.list({ status: 'pending', collection });
+    if (pending.length === 0) {
+      return null;
+    }
+    const dueTimes = pending.map(item => (item.nextAttemptAt ? Date.parse(item.nextAttemptAt) : 0));
+    return Math.max(0, Math.min(...dueTimes) - Date.now());
+  }
+
+  async complete(id: string): Promise<void> {
+    await this.update(items => {
+      const item = items.find(candidate => candidate.id === id);
+      if (item) {
+        item.status = 'done';
+        item.updatedAt = new Date().toISOString();
+        delete item.lastError;
+        delete item.nextAttemptAt;
+      }
+    });
+  }
+
+  // Schedules a retry with exponential backoff, or marks the item failed once attempts run out.
+  // Errors that cannot succeed on retry (e.g. robots.txt disallows the URL) fail immediately.
+  async fail(id: string, error: string, retryable: boolean = true): Promise<QueueItem | undefined> {
+    return this.update(items => {
+      const item = items.find(candidate => candidate.id === id);
+      if (!item) {
+        return undefined;
+      }
+      item.lastError = error;
+      item.updatedAt = new Date().toISOString();
+      if (retryable && item.attempts < QUEUE_MAX_ATTEMPTS) {
+        const delay = QUEUE_RETRY_DELAY_MS * 2 ** (item.attempts - 1);
+        item.status = 'pending';
+        item.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      } else {
+        item.status = 'failed';
+        delete item.nextAttemptAt;
+      }
+      return { ...item };
+    });
+  }
+
+  async retryFailed(collection?: string): Promise<number> {
+    return this.update(items => {
+      let count = 0;
+      for (const item of items) {
+        if (matches(item, { status: 'failed', collection })) {
+          item.status = 'pending';
+          item.attempts = 0;
+          item.updatedAt = new Date().toISOString();
+          delete item.nextAttemptAt;
+          count++;
+        }
+      }
+      return count;
+    });
+  }
+
+  // Removes matching items; items currently being processed are kept
+  async clear(filter: QueueFilter = {}): Promise<number> {
+    return this.update(items => {
+      const kept = items.filter(item => item.status === 'running' || !matches(item, filter));
+      const removed = items.length - kept.length;
+      items.splice(0, items.length, ...kept);
+      return removed;
+    });
+  }
+
+  // Serialises all reads and writes so concurrent tool calls cannot clobber each other
+  private update<T>(mutate: (items: QueueItem[]) => T, write: boolean = true): Promise<T> {
+    const run = this.lock.then(async () => {
+      const items = await this.load();
+      const result = mutate(items);
+      if (write) {
+        await this.save(items);
+      }
+      return result;
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<QueueItem[]> {
+    let items: QueueItem[] = [];
+    try {
+      const content = await fs.readFile(this.file, 'utf-8');
+      items = content
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => JSON.parse(line) as QueueItem);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (!this.recovered) {
+      this.recovered = true;
+      let changed = await this.importLegacyQueue(items);
+      for (const item of items) {
+        if (item.status === 'running') {
+          console.warn(`Queue item ${item.url} was interrupted; returning it to pending.`);
+          item.status = 'pending';
+          changed = true;
+        }
+      }
+      if (changed) {
+        await this.save(items);
+      }
+    }
+    return items;
+  }
+
+  // Moves URLs from the old plain-text queue.txt into the structured queue
+  private async importLegacyQueue(items: QueueItem[]): Promise<boolean> {
+    let content: string;
+    try {
+      content = await fs.readFile(LEGACY_QUEUE_FILE, 'utf-8');
+    } catch {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    for (const line of content.split('\n').filter(line => line.trim() !== '')) {
+      const [url, collection = DEFAULT_COLLECTION_NAME] = line.trim().split('\t');
+      if (items.some(item => item.url === url && item.collection === collection && item.status === 'pending')) {
+        continue;
+      }
+      items.push({
+        id: crypto.randomUUID(),
+        url,
+        collection,
+        status: 'pending',
+        attempts: 0,
+        source: 'queue.txt',
+        addedAt: now,
+        updatedAt: now,
+      });
+    }
+    await this.save(items);
+    await fs.unlink(LEGACY_QUEUE_FILE);
+    console.error(`Imported legacy queue from ${LEGACY_QUEUE_FILE}.`);
+    return true;
+  }
+
+  private async save(items: QueueItem[]): Promise<void> {
+    const tempFile = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, items.map(item => JSON.stringify(item)).join('\n') + (items.length > 0 ? '\n' : ''));
+    await fs.rename(tempFile, this.file);
+  }
+}
+
+// Shared by every handler so all queue access goes through one lock
+export const queueStore = new QueueStore();
@@ -0,0 +1,208 @@
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+export interface RateLimiterOptions {
+  maxConcurrency: number;
+  requestsPerMinute: number; // 0 disables the rate limit
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+// Collects retry counts for the caller of a batch of requests
+export interface RetryUsage {
+  retries: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class Semaphore {
+  private available: number;
+  private waiters: (() => void)[] = [];
+
+  constructor(max: number) {
+    this.available = Math.max(1, max);
+  }
+
+  async acquire(): Promise<() => void> {
+    if (this.available > 0) {
+      this.available--;
+    } else {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    return () => {
+      const next = this.waiters.shift();
+      if (next) {
+        next(); // Hand the slot straight to the next waiter
+      } else {
+        this.available++;
+      }
+    };
+  }
+}
+
+// Refills continuously at the configured rate and allows bursts of up to one second's worth of requests
+class TokenBucket {
+  private tokens: number;
+  private capacity: number;
+  private refillPerMs: number;
+  private lastRefill = Date.now();
+
+  constructor(requestsPerMinute: number) {
+    this.refillPerMs = requestsPerMinute / 60000;
+    this.capacity = Math.max(1, requestsPerMinute / 60);
+    this.tokens = this.capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens--;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+}
+
+// Fetch-style Headers, or a plain object of header values as axios-based clients return
+type ErrorHeaders = { get?: (name: string) => string | null | undefined; [name: string]: unknown };
+
+// The fields the embedding and rerank clients put on their errors; any of them may be missing
+interface ApiErrorLike {
+  status?: unknown;
+  status_code?: unknown;
+  message?: unknown;
+  name?: unknown;
+  code?: unknown;
+  cause?: { code?: unknown };
+  headers?: ErrorHeaders;
+  response?: { status?: unknown; headers?: ErrorHeaders };
+}
+
+function isApiErrorLike(error: unknown): error is ApiErrorLike {
+  return typeof error === 'object' && error !== null;
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (!isApiErrorLike(error)) {
+    return undefined;
+  }
+  const status = error.status ?? error.status_code ?? error.response?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+  // @google/genai only reports the status in its message
+  const match = typeof error.message === 'string' ? error.message.match(/got status: (\d{3})/) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function getHeader(error: unknown, name: string): string | undefined {
+  if (!isApiErrorLike(error)) {
+    return undefined;
+  }
+  const headers = error.headers ?? error.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Server-requested wait from Retry-After (seconds or HTTP date), retry-after-ms, or a Google RetryInfo delay
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = getHeader(error, 'retry-after-ms');
+  if (retryAfterMs && !Number.isNaN(parseFloat(retryAfterMs))) {
+    return parseFloat(retryAfterMs);
+  }
+  const retryAfter = getHeader(error, 'retry-after');
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  const message = error instanceof Error ? error.message : '';
+  const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status);
+  }
+  if (!isApiErrorLike(error)) {
+    return false;
+  }
+  const code = error.code ?? error.cause?.code;
+  if (typeof code === 'string' && RETRYABLE_CODES.has(code)) {
+    return true;
+  }
+  // Connection failures and timeouts from fetch-based clients
+  return error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError' ||
+    error.name === 'TimeoutError' || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+/**
+ * Runs requests against a rate-limited API: at most maxConcurrency at a time,
+ * no more than requestsPerMinute started per minute, and retryable failures
+ * retried with exponential backoff and jitter, or after the server's
+ * Retry-After delay when it sends one.
+ */
+export class RateLimiter {
+  private options: RateLimiterOptions;
+  private semaphore: Semaphore;
+  private bucket?: TokenBucket;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.semaphore = new Semaphore(options.maxConcurrency);
+    if (options.requestsPerMinute > 0) {
+      this.bucket = new TokenBucket(options.requestsPerMinute);
+    }
+  }
+
+  async run<T>(task: () => Promise<T>, usage?: RetryUsage): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let failure: unknown;
+      const release = await this.semaphore.acquire();
+      try {
+        await this.bucket?.take();
+        return await task();
+      } catch (error) {
+        failure = error;
+      } finally {
+        release(); // Backoff waits happen outside the concurrency slot
+      }
+
+      if (attempt >= this.options.maxRetries || !isRetryableError(failure)) {
+        throw failure;
+      }
+      const delay = this.retryDelay(attempt, failure);
+      console.error(`Request failed (${failure instanceof Error ? failure.message : failure}); retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`);
+      if (usage) {
+        usage.retries++;
+      }
+      await sleep(delay);
+    }
+  }
+
+  private retryDelay(attempt: number, error: unknown): number {
+    const retryAfter = getRetryAfterMs(error);
+    if (retryAfter !== undefined) {
+      return Math.min(Math.ceil(retryAfter), this.options.retryMaxDelayMs);
+    }
+    // "Equal jitter": half the exponential delay is fixed, the other half random
+    const exponential = Math.min(this.options.retryBaseDelayMs * 2 ** attempt, this.options.retryMaxDelayMs);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+}
@@ -0,0 +1,176 @@
+import ollama from 'ollama';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { tokenize } from './sparse-vectors.js';
+
+export const RERANKER_NAMES = ['lexical', 'ollama', 'cohere', 'openai'] as const;
+export type RerankerName = typeof RERANKER_NAMES[number];
+
+// Reranker used for `rerank: true`
+const RERANK_PROVIDER = (process.env.RERANK_PROVIDER || 'lexical') as RerankerName;
+const RERANK_MODEL = process.env.RERANK_MODEL;
+const RERANK_URL = process.env.RERANK_URL;
+const RERANK_API_KEY = process.env.RERANK_API_KEY;
+export const RERANK_CANDIDATES = parseInt(process.env.RERANK_CANDIDATES || '30', 10);
+export const MAX_RERANK_CANDIDATES = 100;
+
+const COHERE_RERANK_URL = 'https://api.cohere.com/v2/rerank';
+const COHERE_DEFAULT_MODEL = 'rerank-v3.5';
+const OLLAMA_MAX_DOCUMENT_CHARS = 4000; // Keeps each prompt within small models' context
+
+/**
+ * Rerankers score documents against a query from 0 (irrelevant) to 1, in
+ * input order, so thresholds mean roughly the same for every implementation.
+ */
+export interface Reranker {
+  readonly name: RerankerName;
+  readonly model?: string;
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Scores by how many of the query's terms a document contains, weighting
+ * terms that are rare among the candidates higher and adding a bonus for the
+ * exact query phrase. Needs no model, so it is the default.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) {
+      return documents.map(() => 0);
+    }
+    const counts = documents.map(document => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokenize(document)) {
+        frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      }
+      return frequencies;
+    });
+    const weights = terms.map(term => {
+      const containing = counts.filter(frequencies => frequencies.has(term)).length;
+      return Math.log(1 + (documents.length + 1) / (containing + 1));
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const phrase = terms.length > 1 ? query.trim().toLowerCase() : undefined;
+
+    return documents.map((document, i) => {
+      const termScore = terms.reduce((sum, term, j) => {
+        const frequency = counts[i].get(term) || 0;
+        return sum + weights[j] * frequency / (frequency + 0.5);
+      }, 0) / totalWeight;
+      const phraseScore = phrase && document.toLowerCase().includes(phrase) ? 1 : 0;
+      return 0.8 * termScore + 0.2 * phraseScore;
+    });
+  }
+}
+
+/**
+ * Asks a local Ollama chat model to grade each document, one request per
+ * document. Slower than a rerank endpoint, so keep the candidate count low.
+ */
+export class OllamaReranker implements Reranker {
+  readonly name = 'ollama';
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const scores: number[] = [];
+    for (const document of documents) {
+      const response = await ollama.generate({
+        model: this.model,
+        system: 'You grade how well a documentation excerpt answers a search query. ' +
+          'Reply only with JSON of the form {"score": N}, where N is an integer from 0 (unrelated) to 10 (answers the query directly).',
+        prompt: `Query: ${query}\n\nExcerpt:\n${document.slice(0, OLLAMA_MAX_DOCUMENT_CHARS)}`,
+        format: 'json',
+        options: { temperature: 0 },
+      });
+      scores.push(this.parseScore(response.response));
+    }
+    return scores;
+  }
+
+  // An unreadable grade counts as irrelevant rather than failing the search
+  private parseScore(reply: string): number {
+    try {
+      const score = Number(JSON.parse(reply).score);
+      return Number.isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+/**
+ * Calls a rerank endpoint taking {model, query, documents} and returning
+ * {results: [{index, relevance_score}]}: Cohere's API, and the OpenAI-style
+ * /v1/rerank endpoints of servers such as vLLM, LocalAI or Jina.
+ */
+export class RerankEndpoint implements Reranker {
+  readonly name: 'cohere' | 'openai';
+  readonly model: string;
+  private url: string;
+  private apiKey?: string;
+
+  constructor(name: 'cohere' | 'openai', url: string, model: string, apiKey?: string) {
+    this.name = name;
+    this.url = url;
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, query, documents }),
+    });
+    if (!response.ok) {
+      throw new Error(`Rerank request to ${this.url} failed: HTTP ${response.status} ${(await response.text()).slice(0, 200)}`);
+    }
+    const body = await response.json() as { results?: { index: number; relevance_score: number }[] };
+    if (!Array.isArray(body.results)) {
+      throw new Error(`Rerank response from ${this.url} has no results`);
+    }
+    const scores = documents.map(() => 0);
+    for (const result of body.results) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+}
+
+/**
+ * Builds the reranker named by a search request, or the one configured with
+ * RERANK_PROVIDER for `true`. Missing settings are reported as invalid params.
+ */
+export function createReranker(name: RerankerName | true): Reranker {
+  const provider = name === true ? RERANK_PROVIDER : name;
+  switch (provider) {
+    case 'lexical':
+      return new LexicalReranker();
+    case 'ollama':
+      if (!RERANK_MODEL) {
+        throw new McpError(ErrorCode.InvalidParams, 'The ollama reranker needs RERANK_MODEL, e.g. qwen2.5:3b');
+      }
+      return new OllamaReranker(RERANK_MODEL);
+    case 'cohere':
+      if (!RERANK_API_KEY && !RERANK_URL) {
+        throw new McpError(ErrorCode.InvalidParams, 'The cohere reranker needs RERANK_API_KEY');
+      }
+      return new RerankEndpoint('cohere', RERANK_URL || COHERE_RERANK_URL, RERANK_MODEL || COHERE_DEFAULT_MODEL, RERANK_API_KEY);
+    case 'openai':
+      if (!RERANK_URL || !RERANK_MODEL) {
+        throw new McpError(ErrorCode.InvalidParams, 'The openai reranker needs RERANK_URL (e.g. http://localhost:8000/v1/rerank) and RERANK_MODEL');
+      }
+      return new RerankEndpoint('openai', RERANK_URL, RERANK_MODEL, RERANK_API_KEY);
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown reranker ${provider}; use one of: ${RERANKER_NAMES.join(', ')}`);
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ApiClient } from './api-client.js';
+import { joinChunks } from './chunking.js';
+import { isDocumentPayload } from './types.js';
+
+const SOURCE_URI_PREFIX = 'ragdocs://source/';
+const RESOURCES_PAGE_SIZE = 100;
+const CHUNKS_PAGE_SIZE = 100;
+const LIST_CHANGED_DELAY_MS = 1000;
+
+// Where a resource listing continues: the collection and Qdrant's scroll offset within it
+interface ListCursor {
+  collection: string;
+  offset?: string | number;
+}
+
+const pendingNotifications = new WeakSet<Server>();
+
+/**
+ * Tells clients that sources were added or removed. A crawl or directory
+ * import adds many sources in a row, so the notifications of one second are
+ * sent as one.
+ */
+export function notifySourceListChanged(server: Server): void {
+  if (pendingNotifications.has(server)) {
+    return;
+  }
+  pendingNotifications.add(server);
+  setTimeout(() => {
+    pendingNotifications.delete(server);
+    server.sendResourceListChanged().catch(error =>
+      console.error('Failed to send the resource list change notification:', error instanceof Error ? error.message : error)
+    );
+  }, LIST_CHANGED_DELAY_MS).unref();
+}
+
+/**
+ * Serves every indexed source as a resource, ragdocs://source/<collection>:<id>,
+ * where <id> is the point ID of the source's first chunk. Reading one returns
+ * the document rebuilt from its chunks.
+ */
+export class ResourceRegistry {
+  private server: Server;
+  private apiClient: ApiClient;
+
+  constructor(server: Server, apiClient: ApiClient) {
+    this.server = server;
+    this.apiClient = apiClient;
+    this.registerHandlers();
+  }
+
+  private registerHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      return this.listSources(request.params?.cursor);
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { collection, id } = this.parseUri(request.params.uri);
+      const text = await this.readSource(collection, id, request.params.uri);
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: 'text/markdown',
+            text,
+          },
+        ],
+      };
+    });
+  }
+
+  // Pages through the collections in name order, one Qdrant scroll page at a time
+  private async listSources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const collections = (await this.apiClient.listCollectionNames()).sort();
+    let position: ListCursor | undefined = cursor ? this.decodeCursor(cursor) : collections.length > 0 ? { collection: collections[0] } : undefined;
+    const resources: Resource[] = [];
+
+    while (position && resources.length < RESOURCES_PAGE_SIZE) {
+      const { collection, offset } = position;
+      if (!collections.includes(collection)) {
+        // Deleted since the previous page was listed
+        const following = collections.find(name => name > collection);
+        position = following ? { collection: following } : undefined;
+        continue;
+      }
+      const scroll = await this.apiClient.qdrantClient.scroll(collection, {
+        filter: { must: [{ key: 'chunkIndex', match: { value: 0 } }] },
+        with_payload: ['url', 'title', 'version', 'product'],
+        with_vector: false,
+        limit: RESOURCES_PAGE_SIZE - resources.length,
+        offset,
+      });
+      for (const point of scroll.points) {
+        const payload = point.payload as { url?: string; title?: string; version?: string; product?: string } | null;
+        if (!payload?.url) {
+          continue;
+        }
+        const version = payload.version ? ` (${payload.product ? `${payload.product} ` : ''}${payload.version})` : '';
+        resources.push({
+          uri: `${SOURCE_URI_PREFIX}${collection}:${point.id}`,
+          name: `${payload.title || payload.url}${version}`,
+          description: `${payload.url} in collection '${collection}'`,
+          mimeType: 'text/markdown',
+        });
+      }
+
+      const next = scroll.next_page_offset as string | number | null | undefined;
+      if (next !== null && next !== undefined) {
+        position = { collection, offset: next };
+      } else {
+        const following = collections.find(name => name > collection);
+        position = following ? { collection: following } : undefined;
+      }
+    }
+
+    return {
+      resources,
+      ...(position ? { nextCursor: Buffer.from(JSON.stringify(position)).toString('base64url') } : {}),
+    };
+  }
+
+  private decodeCursor(cursor: string): ListCursor {
+    try {
+      const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+      if (typeof position?.collection === 'string') {
+        return position;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new McpError(ErrorCode.InvalidParams, 'Invalid cursor');
+  }
+
+  private parseUri(uri: string): { collection: string; id: string } {
+    const match = uri.startsWith(SOURCE_URI_PREFIX) ? /^([^:]+):(.+)$/.exec(uri.slice(SOURCE_URI_PREFIX.length)) : null;
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource ${uri}; sources are ${SOURCE_URI_PREFIX}<collection>:<id>`);
+    }
+    return { collection: this.apiClient.resolveCollectionName(match[1]), id: match[2] };
+  }
+
+  private async readSource(collection: string, id: string, uri: string): Promise<string> {
+    if (!(await this.apiClient.collectionExists(collection))) {
+      throw new McpError(ErrorCode.InvalidParams, `Collection not found: ${collection}`);
+    }
+    let first;
+    try {
+      [first] = await this.apiClient.qdrantClient.retrieve(collection, { ids: [id], with_payload: ['url'], with_vector: false });
+    } catch {
+      first = undefined; // Qdrant rejects IDs that are neither UUIDs nor integers
+    }
+    const url = (first?.payload as { url?: string } | null | undefined)?.url;
+    if (!url) {
+      throw new McpError(ErrorCode.InvalidParams, `Source not found: ${uri}. It may have been removed or re-indexed; list the resources again.`);
+    }
+
+    const chunks: { index: number; text: string; headingPath?: string }[] = [];
+    let title = url;
+    let offset: string | number | null | undefined = undefined;
+    do {
+      const scroll = await this.apiClient.qdrantClient.scroll(collection, {
+        filter: { must: [{ key: 'url', match: { value: url } }] },
+        with_payload: ['text', 'title', 'url', 'timestamp', 'headingPath', 'chunkIndex', '_type'],
+        with_vector: false,
+        limit: CHUNKS_PAGE_SIZE,
+        offset: offset ?? undefined,
+      });
+      for (const point of scroll.points) {
+        if (isDocumentPayload(point.payload)) {
+          title = point.payload.title;
+          chunks.push({
+            index: typeof point.payload.chunkIndex === 'number' ? point.payload.chunkIndex : chunks.length,
+            text: point.payload.text,
+            headingPath: point.payload.headingPath,
+          });
+        }
+      }
+      offset = scroll.next_page_offset as string | number | null | undefined;
+    } while (offset !== null && offset !== undefined);
+
+    chunks.sort((a, b) => a.index - b.index);
+    return `# ${title}\n\nSource: ${url}\n\n${joinChunks(chunks)}`;
+  }
+}
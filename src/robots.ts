@@ -0,0 +1,174 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+// robots.txt handling. IGNORE_ROBOTS_TXT=true disables it for every call (e.g. internal sites)
+export const IGNORE_ROBOTS_TXT = process.env.IGNORE_ROBOTS_TXT === 'true';
+const ROBOTS_USER_AGENT = process.env.ROBOTS_USER_AGENT || 'mcp-ragdocs';
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_FETCH_TIMEOUT_MS = 10000;
+const MAX_CRAWL_DELAY_MS = 60000; // Ignore absurd Crawl-delay values rather than stalling for hours
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Specificity; the longest matching rule wins
+}
+
+export interface RobotsTxt {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+  sitemaps: string[];
+}
+
+export class RobotsDisallowedError extends McpError {
+  constructor(url: string) {
+    super(ErrorCode.InvalidRequest, `Fetching ${url} is disallowed by robots.txt (pass ignore_robots: true to override)`);
+  }
+}
+
+const ALLOW_ALL: RobotsTxt = { rules: [], crawlDelayMs: 0, sitemaps: [] };
+
+// `*` matches any run of characters and a trailing `$` anchors the end of the URL
+function compileRule(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parses robots.txt for one user agent: the group naming the most specific
+ * token contained in the agent wins, falling back to the `*` group.
+ */
+export function parseRobotsTxt(content: string, userAgent: string = ROBOTS_USER_AGENT): RobotsTxt {
+  const agent = userAgent.toLowerCase();
+  const groups: { agents: string[]; lines: [string, string][] }[] = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; lines: [string, string][] } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || current.lines.length > 0) {
+        current = { agents: [], lines: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (current) {
+      current.lines.push([field, value]);
+    }
+  }
+
+  const matchLength = (token: string) => (token !== '*' && agent.includes(token) ? token.length : 0);
+  const best = Math.max(0, ...groups.flatMap(group => group.agents.map(matchLength)));
+  const selected = groups.filter(group =>
+    best > 0 ? group.agents.some(token => matchLength(token) === best) : group.agents.includes('*')
+  );
+
+  const robots: RobotsTxt = { rules: [], crawlDelayMs: 0, sitemaps };
+  for (const [field, value] of selected.flatMap(group => group.lines)) {
+    if ((field === 'allow' || field === 'disallow') && value) {
+      robots.rules.push({ allow: field === 'allow', pattern: compileRule(value), length: value.length });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds > 0) {
+        robots.crawlDelayMs = Math.min(seconds * 1000, MAX_CRAWL_DELAY_MS);
+      }
+    }
+  }
+  return robots;
+}
+
+export function isPathAllowed(robots: RobotsTxt, pathAndQuery: string): boolean {
+  let match: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    if (rule.pattern.test(pathAndQuery) &&
+        (!match || rule.length > match.length || (rule.length === match.length && rule.allow))) {
+      match = rule;
+    }
+  }
+  return match?.allow ?? true;
+}
+
+/**
+ * Fetches and caches robots.txt per origin, answers allow/disallow questions
+ * and spaces out requests to each origin by its Crawl-delay.
+ */
+export class RobotsPolicy {
+  private cache = new Map<string, { robots: RobotsTxt; fetchedAt: number }>();
+  private nextRequestAt = new Map<string, number>(); // Origin -> earliest time of the next request
+
+  async get(origin: string): Promise<RobotsTxt> {
+    const cached = this.cache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_TTL_MS) {
+      return cached.robots;
+    }
+
+    let robots = ALLOW_ALL;
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': ROBOTS_USER_AGENT },
+        signal: AbortSignal.timeout(ROBOTS_FETCH_TIMEOUT_MS),
+      });
+      // A missing robots.txt (4xx) allows everything
+      if (response.ok) {
+        robots = parseRobotsTxt(await response.text());
+      } else if (response.status >= 500) {
+        console.warn(`robots.txt for ${origin} returned ${response.status}; treating the site as unrestricted.`);
+      }
+    } catch (error) {
+      console.warn(`Could not fetch robots.txt for ${origin}; treating the site as unrestricted:`, error);
+    }
+
+    this.cache.set(origin, { robots, fetchedAt: Date.now() });
+    return robots;
+  }
+
+  async isAllowed(url: string, ignoreRobots: boolean = false): Promise<boolean> {
+    const parsed = new URL(url);
+    if (ignoreRobots || IGNORE_ROBOTS_TXT || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+      return true;
+    }
+    return isPathAllowed(await this.get(parsed.origin), parsed.pathname + parsed.search);
+  }
+
+  // Throws RobotsDisallowedError for disallowed URLs, otherwise waits until the origin's crawl delay has passed
+  async acquire(url: string, ignoreRobots: boolean = false): Promise<void> {
+    const parsed = new URL(url);
+    if (ignoreRobots || IGNORE_ROBOTS_TXT || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+      return;
+    }
+    const { origin } = parsed;
+    const robots = await this.get(origin);
+    if (!isPathAllowed(robots, parsed.pathname + parsed.search)) {
+      throw new RobotsDisallowedError(url);
+    }
+
+    const { crawlDelayMs } = robots;
+    if (crawlDelayMs === 0) {
+      return;
+    }
+    // Reserve the slot before waiting so concurrent callers queue up behind each other
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(origin) || 0);
+    this.nextRequestAt.set(origin, slot + crawlDelayMs);
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  async getSitemaps(origin: string): Promise<string[]> {
+    return (await this.get(origin)).sitemaps;
+  }
+}
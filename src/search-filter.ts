@@ -0,0 +1,187 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { Schemas } from '@qdrant/js-client-rest';
+import { parseMetadataObject } from './source-metadata.js';
+import { ALL_VERSIONS, LATEST_VERSION, latestVersion } from './versions.js';
+
+export type SearchFilter = Schemas['Filter'];
+type Condition = Schemas['Condition'];
+
+function stringArg(args: any, name: string): string | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+// Accepts a single string or an array of strings
+function stringListArg(args: any, name: string): string[] | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  if (values.length === 0 || !values.every(item => typeof item === 'string' && item.trim())) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a string or a non-empty array of strings`);
+  }
+  return values.map(item => item.trim());
+}
+
+function dateArg(args: any, name: string): string | undefined {
+  const value = stringArg(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO 8601 date, e.g. 2025-01-31 or 2025-01-31T12:00:00Z`);
+  }
+  return new Date(time).toISOString();
+}
+
+function matchOneOf(key: string, values: string[]): Condition {
+  return values.length === 1 ? { key, match: { value: values[0] } } : { key, match: { any: values } };
+}
+
+/**
+ * The url_prefix argument. Qdrant has no prefix match, so the filter uses its
+ * text match, a substring test on fields without a full-text index: it also
+ * lets through URLs that merely contain the prefix, e.g. in a query string.
+ * Search results are therefore checked with startsWith as well.
+ */
+export function getUrlPrefix(args: any): string | undefined {
+  const prefix = stringArg(args, 'url_prefix');
+  if (prefix !== undefined && !/^(https?|file):\/\//.test(prefix)) {
+    throw new McpError(ErrorCode.InvalidParams, 'url_prefix must start with http://, https:// or file://');
+  }
+  return prefix;
+}
+
+// The host must be followed by a port, a path or the end of the URL, so "react.dev" does not match "react.dev.example"
+function domainCondition(domain: string): Condition {
+  let host = domain.toLowerCase();
+  if (host.includes('://')) {
+    try {
+      host = new URL(host).hostname;
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid domain: ${domain}`);
+    }
+  }
+  if (!/^[a-z0-9.-]+$/.test(host)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid domain: ${domain}`);
+  }
+  return {
+    should: [
+      { key: 'url', match: { text: `://${host}/` } },
+      { key: 'url', match: { text: `://${host}:` } },
+      { key: 'url', match: { any: [`https://${host}`, `http://${host}`] } },
+    ],
+  };
+}
+
+/**
+ * Translates the metadata arguments of search_documentation into a Qdrant
+ * filter. All given arguments must match; list arguments match chunks having
+ * any of the listed values.
+ */
+export function buildSearchFilter(args: any): SearchFilter | undefined {
+  const must: Condition[] = [];
+
+  const urlPrefix = getUrlPrefix(args);
+  if (urlPrefix) {
+    must.push({ key: 'url', match: { text: urlPrefix } });
+  }
+  const domain = stringArg(args, 'domain');
+  if (domain) {
+    must.push(domainCondition(domain));
+  }
+  // Title matching is by words, ignoring case, once the collection has its full-text title index
+  const title = stringArg(args, 'title');
+  if (title) {
+    must.push({ key: 'title', match: { text: title } });
+  }
+
+  const indexedAfter = dateArg(args, 'indexed_after');
+  const indexedBefore = dateArg(args, 'indexed_before');
+  if (indexedAfter || indexedBefore) {
+    if (indexedAfter && indexedBefore && indexedAfter > indexedBefore) {
+      throw new McpError(ErrorCode.InvalidParams, 'indexed_after must be before indexed_before');
+    }
+    must.push({ key: 'timestamp', range: { gte: indexedAfter, lte: indexedBefore } });
+  }
+
+  const tags = stringListArg(args, 'tags');
+  if (tags) {
+    must.push(matchOneOf('tags', tags));
+  }
+  // "latest" (the default) and "*" are resolved per collection; see latestVersionCondition
+  const versions = stringListArg(args, 'version');
+  if (versions && !wantsLatestVersion(args) && args.version !== ALL_VERSIONS) {
+    if (versions.includes(LATEST_VERSION) || versions.includes(ALL_VERSIONS)) {
+      throw new McpError(ErrorCode.InvalidParams, `version "${LATEST_VERSION}" and "${ALL_VERSIONS}" must be passed as a single string, not in a list`);
+    }
+    must.push(matchOneOf('version', versions));
+  }
+  const products = stringListArg(args, 'product');
+  if (products) {
+    must.push(matchOneOf('product', products));
+  }
+  if (args.metadata !== undefined) {
+    for (const [key, value] of Object.entries(parseMetadataObject(args.metadata))) {
+      must.push({ key: `metadata.${key}`, match: { value } });
+    }
+  }
+  const languages = stringListArg(args, 'language');
+  if (languages) {
+    must.push(matchOneOf('language', languages.map(language => language.toLowerCase().split(/[-_]/)[0])));
+  }
+
+  // API operations indexed with add_openapi; methods are stored upper-cased, paths as written in the document
+  const method = stringArg(args, 'method');
+  if (method) {
+    must.push({ key: 'method', match: { value: method.toUpperCase() } });
+  }
+  const path = stringArg(args, 'path');
+  if (path) {
+    must.push({ key: 'path', match: { value: path } });
+  }
+  const operationId = stringArg(args, 'operation_id');
+  if (operationId) {
+    must.push({ key: 'operationId', match: { value: operationId } });
+  }
+
+  return must.length > 0 ? { must } : undefined;
+}
+
+// Searches without a version argument only see the latest version of each product
+export function wantsLatestVersion(args: any): boolean {
+  return args.version === undefined || args.version === LATEST_VERSION;
+}
+
+/**
+ * Adds to a filter that versioned chunks must be of the latest version of
+ * their product (see latestVersion), given the versions a collection holds
+ * per product. Chunks without a version always match, and products whose
+ * versions cannot be ordered keep all of them.
+ */
+export function restrictToLatestVersions(
+  filter: SearchFilter | undefined,
+  versionsByProduct: Map<string | undefined, string[]>
+): SearchFilter | undefined {
+  if (versionsByProduct.size === 0) {
+    return filter;
+  }
+  const should: Condition[] = [{ is_empty: { key: 'version' } }];
+  for (const [product, versions] of versionsByProduct) {
+    const latest = latestVersion(versions);
+    const productCondition: Condition = product === undefined
+      ? { is_empty: { key: 'product' } }
+      : { key: 'product', match: { value: product } };
+    should.push({ must: latest === undefined ? [productCondition] : [productCondition, { key: 'version', match: { value: latest } }] });
+  }
+  // buildSearchFilter always produces a list of conditions
+  return { must: [...((filter?.must as Condition[] | undefined) ?? []), { should }] };
+}
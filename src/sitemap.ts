@@ -0,0 +1,140 @@
+import * as cheerio from 'cheerio';
+import zlib from 'zlib';
+import { RobotsPolicy } from './robots.js';
+import { SitemapLimit } from './types.js';
+
+const MAX_SITEMAPS = 50; // Upper bound on sitemap files read per call, including nested indexes
+const SITEMAP_FETCH_TIMEOUT_MS = 30000;
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: Date;
+}
+
+export interface SitemapOptions {
+  robots: RobotsPolicy;
+  ignoreRobots?: boolean;
+  modifiedSince?: Date; // Skips entries and child sitemaps whose lastmod is older
+  filter?: (url: URL) => boolean; // include/exclude patterns
+  maxUrls: number; // Counted in entries that pass the filter and robots.txt
+}
+
+export interface SitemapResult {
+  entries: SitemapEntry[]; // Entries matching the filter and allowed by robots.txt
+  urls: number; // Entries read, before filtering
+  blocked: number; // Matching entries disallowed by robots.txt
+  sitemapsRead: number;
+  failures: { url: string; error: string }[];
+  truncatedBy?: SitemapLimit;
+}
+
+function parseLastmod(value: string): Date | undefined {
+  const time = Date.parse(value.trim());
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+function isOlder(lastmod: Date | undefined, since: Date | undefined): boolean {
+  // Entries without a lastmod might have changed, so they are kept
+  return !!since && !!lastmod && lastmod < since;
+}
+
+async function fetchSitemapXml(url: string): Promise<string> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  const body = Buffer.from(await response.arrayBuffer());
+  // .xml.gz files are served as gzip data without a Content-Encoding header, so check the magic bytes
+  if (body[0] === 0x1f && body[1] === 0x8b) {
+    return zlib.gunzipSync(body).toString('utf-8');
+  }
+  return body.toString('utf-8');
+}
+
+/**
+ * Sitemap URLs to start from: the URL itself when it points at an XML or
+ * gzip file, otherwise the sitemaps listed in the site's robots.txt, falling
+ * back to /sitemap.xml.
+ */
+export async function discoverSitemaps(url: string, robots: RobotsPolicy): Promise<string[]> {
+  const parsed = new URL(url);
+  if (/\.(xml|gz)$/i.test(parsed.pathname)) {
+    return [parsed.href];
+  }
+  const listed = await robots.getSitemaps(parsed.origin);
+  return listed.length > 0 ? listed : [`${parsed.origin}/sitemap.xml`];
+}
+
+/**
+ * Reads sitemaps breadth-first, following sitemap indexes, until maxUrls
+ * entries are collected. Entries are filtered and checked against robots.txt
+ * as they are read, so the limit leaves out matching pages only.
+ */
+export async function readSitemaps(sitemapUrls: string[], options: SitemapOptions): Promise<SitemapResult> {
+  const result: SitemapResult = { entries: [], urls: 0, blocked: 0, sitemapsRead: 0, failures: [] };
+  const seenSitemaps = new Set<string>(sitemapUrls);
+  const seenUrls = new Set<string>();
+  const pending = [...sitemapUrls];
+
+  while (pending.length > 0) {
+    if (result.entries.length >= options.maxUrls) {
+      result.truncatedBy = 'max_urls';
+      break;
+    }
+    if (result.sitemapsRead >= MAX_SITEMAPS) {
+      result.truncatedBy = 'max_sitemaps';
+      break;
+    }
+    const sitemapUrl = pending.shift()!;
+
+    let $: cheerio.CheerioAPI;
+    try {
+      await options.robots.acquire(sitemapUrl, options.ignoreRobots);
+      $ = cheerio.load(await fetchSitemapXml(sitemapUrl), { xml: true });
+      result.sitemapsRead++;
+    } catch (error) {
+      console.error(`Failed to read sitemap ${sitemapUrl}:`, error);
+      result.failures.push({ url: sitemapUrl, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    $('sitemapindex > sitemap').each((_, element) => {
+      const loc = $(element).children('loc').text().trim();
+      const lastmod = parseLastmod($(element).children('lastmod').text());
+      if (loc && !seenSitemaps.has(loc) && !isOlder(lastmod, options.modifiedSince)) {
+        seenSitemaps.add(loc);
+        pending.push(loc);
+      }
+    });
+
+    for (const element of $('urlset > url').toArray()) {
+      const loc = $(element).children('loc').text().trim();
+      const lastmod = parseLastmod($(element).children('lastmod').text());
+      if (!loc || seenUrls.has(loc) || isOlder(lastmod, options.modifiedSince)) {
+        continue;
+      }
+      if (result.entries.length >= options.maxUrls) {
+        result.truncatedBy = 'max_urls';
+        break;
+      }
+      seenUrls.add(loc);
+      result.urls++;
+      let url: URL;
+      try {
+        url = new URL(loc);
+      } catch {
+        continue; // Ignore invalid URLs
+      }
+      if (options.filter && !options.filter(url)) {
+        continue;
+      }
+      if (!(await options.robots.isAllowed(loc, options.ignoreRobots))) {
+        result.blocked++;
+        continue;
+      }
+      result.entries.push({ url: loc, lastmod });
+    }
+  }
+
+  return result;
+}
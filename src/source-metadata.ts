@@ -0,0 +1,88 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { SourceMetadata } from './types.js';
+
+// Metadata keys become nested payload paths (`metadata.<key>`), so dots are not allowed
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_TAGS = 50;
+const MAX_METADATA_KEYS = 20;
+const MAX_LABEL_LENGTH = 128;
+const MAX_METADATA_VALUE_LENGTH = 512;
+
+function label(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !value.trim() || value.trim().length > MAX_LABEL_LENGTH) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+export function parseTags(value: unknown, name: string = 'tags'): string[] {
+  if (!Array.isArray(value) || value.length > MAX_TAGS) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an array of at most ${MAX_TAGS} strings`);
+  }
+  return Array.from(new Set(value.map(tag => label(tag, `Each of ${name}`))));
+}
+
+// Numbers and booleans are accepted and stored as strings, so filters match them the same way
+export function parseMetadataObject(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new McpError(ErrorCode.InvalidParams, 'metadata must be an object of key/value pairs');
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_METADATA_KEYS) {
+    throw new McpError(ErrorCode.InvalidParams, `metadata may have at most ${MAX_METADATA_KEYS} keys`);
+  }
+  const metadata: Record<string, string> = {};
+  for (const [key, raw] of entries) {
+    if (!METADATA_KEY_PATTERN.test(key)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid metadata key: ${key}. Use 1-64 letters, digits, '-' or '_'.`);
+    }
+    if (!['string', 'number', 'boolean'].includes(typeof raw) || String(raw).length > MAX_METADATA_VALUE_LENGTH) {
+      throw new McpError(ErrorCode.InvalidParams, `metadata.${key} must be a string, number or boolean of at most ${MAX_METADATA_VALUE_LENGTH} characters`);
+    }
+    metadata[key] = String(raw);
+  }
+  return metadata;
+}
+
+/**
+ * Reads the `tags`, `version`, `product` and `metadata` arguments of an
+ * indexing tool. Returns undefined when none of them is given.
+ */
+export function parseSourceMetadata(args: any): SourceMetadata | undefined {
+  const result: SourceMetadata = {};
+  if (args.tags !== undefined) {
+    result.tags = parseTags(args.tags);
+  }
+  if (args.version !== undefined) {
+    result.version = label(args.version, 'version');
+  }
+  if (args.product !== undefined) {
+    result.product = label(args.product, 'product');
+  }
+  if (args.metadata !== undefined) {
+    result.metadata = parseMetadataObject(args.metadata);
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+// Only the label fields of a payload, e.g. to carry them over when a page is re-indexed
+export function pickSourceMetadata(payload: object | null | undefined): SourceMetadata {
+  const p = (payload || {}) as Record<string, unknown>;
+  const result: SourceMetadata = {};
+  if (Array.isArray(p.tags)) result.tags = p.tags;
+  if (typeof p.version === 'string') result.version = p.version;
+  if (typeof p.product === 'string') result.product = p.product;
+  if (p.metadata && typeof p.metadata === 'object' && !Array.isArray(p.metadata)) result.metadata = p.metadata as Record<string, string>;
+  return result;
+}
+
+export function describeSourceMetadata(metadata: SourceMetadata): string {
+  const parts: string[] = [];
+  if (metadata.tags?.length) parts.push(`tags: ${metadata.tags.join(', ')}`);
+  if (metadata.version) parts.push(`version: ${metadata.version}`);
+  if (metadata.product) parts.push(`product: ${metadata.product}`);
+  for (const [key, value] of Object.entries(metadata.metadata || {})) {
+    parts.push(`${key}: ${value}`);
+  }
+  return parts.join('; ');
+}
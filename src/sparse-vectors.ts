@@ -0,0 +1,74 @@
+// Name of the sparse (keyword) vector stored next to the default dense vector
+export const SPARSE_VECTOR_NAME = 'bm25';
+
+// BM25 parameters. Qdrant applies the IDF part server side (modifier: 'idf').
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const BM25_AVG_DOC_LENGTH = parseInt(process.env.BM25_AVG_DOC_LENGTH || '160', 10); // Tokens per chunk
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'i', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where',
+  'which', 'with', 'you', 'your',
+]);
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Splits text into lowercase keyword tokens. Identifiers such as `useEffect`,
+ * `ERR_INVALID_ARG` or `fs.readFile` are kept whole (dotted names also yield
+ * their parts) so exact API names can be matched.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}_]+(?:\.[\p{L}\p{N}_]+)*/gu)) {
+    const token = match[0].toLowerCase();
+    const parts = token.includes('.') ? [token, ...token.split('.')] : [token];
+    for (const part of parts) {
+      if (part.length > 1 && !STOP_WORDS.has(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+  return tokens;
+}
+
+// FNV-1a, mapped to an unsigned 32-bit sparse index
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function termFrequencies(tokens: string[]): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const token of tokens) {
+    const index = hashToken(token);
+    frequencies.set(index, (frequencies.get(index) || 0) + 1);
+  }
+  return frequencies;
+}
+
+// Document side: BM25 term-frequency saturation, normalised by chunk length
+export function buildDocumentSparseVector(text: string): SparseVector {
+  const tokens = tokenize(text);
+  const lengthNorm = 1 - BM25_B + BM25_B * (tokens.length / BM25_AVG_DOC_LENGTH);
+  const vector: SparseVector = { indices: [], values: [] };
+  for (const [index, tf] of termFrequencies(tokens)) {
+    vector.indices.push(index);
+    vector.values.push((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+  }
+  return vector;
+}
+
+// Query side: every distinct term weighs 1, IDF comes from Qdrant
+export function buildQuerySparseVector(text: string): SparseVector {
+  const indices = Array.from(termFrequencies(tokenize(text)).keys());
+  return { indices, values: indices.map(() => 1) };
+}
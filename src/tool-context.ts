@@ -0,0 +1,98 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { JobCheckpoint } from './types.js';
+
+// Receives the progress of a tool running as a background job
+export type ProgressListener = (progress: number, total?: number, message?: string) => void;
+
+// Receives the state a background job continues from if the server stops before it finishes
+export type CheckpointListener = (checkpoint: JobCheckpoint) => void;
+
+/**
+ * Progress reporting and cancellation for one tool call. Progress only moves
+ * forward, in whatever unit the tool counts (usually URLs or files), and is
+ * only sent when the client asked for it with a progress token. Background
+ * jobs record it through a listener instead, along with the checkpoints that
+ * let a tool continue where an interrupted run of the same job stopped.
+ */
+export class ToolContext {
+  readonly signal?: AbortSignal;
+  private server?: Server;
+  private progressToken?: ProgressToken;
+  private onProgress?: ProgressListener;
+  private onCheckpoint?: CheckpointListener;
+  private resumeFrom?: JobCheckpoint;
+  private progress = 0;
+
+  constructor(
+    server?: Server,
+    progressToken?: ProgressToken,
+    signal?: AbortSignal,
+    onProgress?: ProgressListener,
+    resumeFrom?: JobCheckpoint,
+    onCheckpoint?: CheckpointListener
+  ) {
+    this.server = server;
+    this.progressToken = progressToken;
+    this.signal = signal;
+    this.onProgress = onProgress;
+    this.resumeFrom = resumeFrom;
+    this.onCheckpoint = onCheckpoint;
+    this.progress = resumeFrom?.progress ?? 0;
+  }
+
+  // State saved with saveCheckpoint by the interrupted run this call continues, if any
+  get checkpoint(): unknown {
+    return this.resumeFrom?.state;
+  }
+
+  // Records how far the tool got; only background jobs keep it, to resume after a server restart
+  saveCheckpoint(state: unknown): void {
+    this.onCheckpoint?.({ progress: this.progress, state });
+  }
+
+  // Set once the client cancels the request (or cancel_job is called); long-running tools stop after the item in hand
+  get cancelled(): boolean {
+    return this.signal?.aborted === true;
+  }
+
+  advance(step: number, total?: number, message?: string): void {
+    if (step <= 0) {
+      return;
+    }
+    this.progress += step;
+    this.onProgress?.(this.progress, total, message);
+    if (this.progressToken === undefined || !this.server) {
+      return;
+    }
+    this.server.notification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress: this.progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message ? { message } : {}),
+      },
+    }).catch(error =>
+      console.error('Failed to send a progress notification:', error instanceof Error ? error.message : error)
+    );
+  }
+
+  // Waits like setTimeout, but returns early when the call is cancelled
+  async sleep(ms: number): Promise<void> {
+    if (this.cancelled) {
+      return;
+    }
+    await new Promise<void>(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      this.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
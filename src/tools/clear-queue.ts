@@ -1,13 +1,8 @@
 import { BaseTool } from './base-tool.js';
-import { ToolDefinition, McpToolResponse } from '../types.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { ToolDefinition, McpToolResponse, ClearQueueOutput } from '../types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { QUEUE_STATUSES, queueStore } from '../queue-store.js';
+import { formatError, formatOutput } from '../output.js';
 
 export class ClearQueueTool extends BaseTool {
   get definition(): ToolDefinition {
@@ -16,53 +11,35 @@ export class ClearQueueTool extends BaseTool {
       description: 'Clear all URLs from the queue',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          collection: {
+            type: 'string',
+            description: 'Only clear URLs queued for this collection',
+          },
+          status: {
+            type: 'string',
+            enum: QUEUE_STATUSES,
+            description: 'Only clear items with this status',
+          },
+        },
         required: [],
       },
     };
   }
 
-  async execute(_args: any): Promise<McpToolResponse> {
-    try {
-      // Check if queue file exists
-      try {
-        await fs.access(QUEUE_FILE);
-      } catch {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is already empty (queue file does not exist)',
-            },
-          ],
-        };
-      }
-
-      // Read current queue to get count of URLs being cleared
-      const content = await fs.readFile(QUEUE_FILE, 'utf-8');
-      const urlCount = content.split('\n').filter(url => url.trim() !== '').length;
+  async execute(args: any = {}): Promise<McpToolResponse> {
+    if (args.status !== undefined && !QUEUE_STATUSES.includes(args.status)) {
+      throw new McpError(ErrorCode.InvalidParams, `status must be one of: ${QUEUE_STATUSES.join(', ')}`);
+    }
 
-      // Clear the queue by emptying the file
-      await fs.writeFile(QUEUE_FILE, '');
+    try {
+      // Items that are being processed right now are never removed
+      const urlCount = await queueStore.clear({ status: args.status, collection: args.collection });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Queue cleared successfully. Removed ${urlCount} URL${urlCount === 1 ? '' : 's'} from the queue.`,
-          },
-        ],
-      };
+      const output: ClearQueueOutput = { removed: urlCount };
+      return formatOutput(args, output, `Queue cleared successfully. Removed ${urlCount} URL${urlCount === 1 ? '' : 's'} from the queue.`);
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Failed to clear queue: ${error}`,
-          },
-        ],
-        isError: true,
-      };
+      return formatError(args, `Failed to clear queue: ${error}`);
     }
   }
-}
\ No newline at end of file
+}
@@ -1,16 +1,9 @@
 import { BaseTool } from './base-tool.js';
 import { ToolDefinition, McpToolResponse } from '../types.js';
-import { ApiClient } from '../api-client.js';
+import { ApiClient, DEFAULT_COLLECTION_NAME } from '../api-client.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import * as cheerio from 'cheerio';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { queueStore } from '../queue-store.js';
 
 export class ExtractUrlsTool extends BaseTool {
   private apiClient: ApiClient;
@@ -75,22 +68,16 @@ export class ExtractUrlsTool extends BaseTool {
 
       if (args.add_to_queue) {
         try {
-          // Ensure queue file exists
-          try {
-            await fs.access(QUEUE_FILE);
-          } catch {
-            await fs.writeFile(QUEUE_FILE, '');
-          }
-
-          // Append URLs to queue
-          const urlsToAdd = urlArray.join('\n') + (urlArray.length > 0 ? '\n' : '');
-          await fs.appendFile(QUEUE_FILE, urlsToAdd);
+          const { added } = await queueStore.enqueue(
+            urlArray.map(url => ({ url, collection: DEFAULT_COLLECTION_NAME })),
+            'extract_urls'
+          );
 
           return {
             content: [
               {
                 type: 'text',
-                text: `Successfully added ${urlArray.length} URLs to the queue`,
+                text: `Successfully added ${added} URLs to the queue`,
               },
             ],
           };
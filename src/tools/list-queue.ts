@@ -1,10 +1,7 @@
 import { BaseTool } from './base-tool.js';
 import { ToolDefinition, McpToolResponse } from '../types.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import fs from 'fs/promises';
-import path from 'path';
-
-const QUEUE_FILE = path.join(process.cwd(), 'queue.txt');
+import { queueStore } from '../queue-store.js';
 
 export class ListQueueTool extends BaseTool {
   constructor() {
@@ -25,23 +22,7 @@ export class ListQueueTool extends BaseTool {
 
   async execute(_args: any): Promise<McpToolResponse> {
     try {
-      // Check if queue file exists
-      try {
-        await fs.access(QUEUE_FILE);
-      } catch {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is empty (queue file does not exist)',
-            },
-          ],
-        };
-      }
-
-      // Read queue file
-      const content = await fs.readFile(QUEUE_FILE, 'utf-8');
-      const urls = content.split('\n').filter(url => url.trim() !== '');
+      const urls = (await queueStore.list({ status: 'pending' })).map(item => item.url);
 
       if (urls.length === 0) {
         return {
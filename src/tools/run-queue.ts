@@ -1,17 +1,10 @@
 import { BaseTool } from './base-tool.js';
 import { ToolDefinition, McpToolResponse } from '../types.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { ApiClient } from '../api-client.js';
 import { AddDocumentationHandler } from '../handlers/add-documentation.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-
-// Get current directory in ES modules
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const QUEUE_FILE = path.join(__dirname, '..', '..', 'queue.txt');
+import { queueStore } from '../queue-store.js';
 
 export class RunQueueTool extends BaseTool {
   private apiClient: ApiClient;
@@ -42,48 +35,27 @@ export class RunQueueTool extends BaseTool {
 
   async execute(_args: any): Promise<McpToolResponse> {
     try {
-      // Check if queue file exists
-      try {
-        await fs.access(QUEUE_FILE);
-      } catch {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Queue is empty (queue file does not exist)',
-            },
-          ],
-        };
-      }
-
       let processedCount = 0;
       let failedCount = 0;
       const failedUrls: string[] = [];
 
       while (true) {
-        // Read current queue
-        const content = await fs.readFile(QUEUE_FILE, 'utf-8');
-        const urls = content.split('\n').filter(url => url.trim() !== '');
-
-        if (urls.length === 0) {
-          break; // Queue is empty
+        const item = await queueStore.claimNext();
+        if (!item) {
+          break; // Nothing due; items waiting for a retry are left for the next run
         }
 
-        const currentUrl = urls[0]; // Get first URL
-        
         try {
           // Process the URL using the handler
-          await this.addDocHandler.handle({ url: currentUrl });
+          await this.addDocHandler.indexSource(item.url, item.collection);
+          await queueStore.complete(item.id);
           processedCount++;
         } catch (error) {
           failedCount++;
-          failedUrls.push(currentUrl);
-          console.error(`Failed to process URL ${currentUrl}:`, error);
+          failedUrls.push(item.url);
+          console.error(`Failed to process URL ${item.url}:`, error);
+          await queueStore.fail(item.id, String(error));
         }
-
-        // Remove the processed URL from queue
-        const remainingUrls = urls.slice(1);
-        await fs.writeFile(QUEUE_FILE, remainingUrls.join('\n') + (remainingUrls.length > 0 ? '\n' : ''));
       }
 
       let resultText = `Queue processing complete.\nProcessed: ${processedCount} URLs\nFailed: ${failedCount} URLs`;
@@ -1,10 +1,117 @@
-export interface DocumentChunk {
+// User-supplied labels stored on every chunk of a source
+export interface SourceMetadata {
+  tags?: string[];
+  version?: string;
+  product?: string;
+  metadata?: Record<string, string>; // Free-form key/value pairs, stored as a nested payload object
+}
+
+export interface DocumentChunk extends SourceMetadata {
   text: string;
   url: string;
   title: string;
+  headingPath?: string; // Section headings leading to the chunk, e.g. "Guide > Auth > Tokens"
+  page?: number; // 1-based page number, for chunks of PDF documents
+  line?: number; // 1-based line where the chunk starts, for Markdown sources
+  method?: string; // HTTP method, path and operation ID of an API operation (add_openapi)
+  path?: string;
+  operationId?: string;
+  language?: string; // Primary language subtag of an HTML page, e.g. "en"
   timestamp: string;
 }
 
+// Outcome of an indexing run, counted in chunks
+export interface ChunkCounts {
+  chunks: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  embeddingRetries: number; // Embedding requests retried after rate limits or transient errors
+}
+
+// Per-source outcome of an indexing run
+export interface IndexResult extends ChunkCounts {
+  url: string;
+  collection: string;
+}
+
+// Per-collection search defaults, set with configure_collection
+export interface CollectionSearchSettings {
+  scoreThreshold?: number; // Minimum semantic similarity when results are not reranked
+  rerankThreshold?: number; // Minimum reranker score
+}
+
+// Embedding model a collection's vectors were built with
+export interface EmbeddingTag {
+  collection: string;
+  provider: string;
+  model: string;
+  dimensions: number;
+  updatedAt: string;
+  searchSettings?: CollectionSearchSettings; // Stored with the tag, the collection's only metadata record
+}
+
+export type MigrationState = 'running' | 'completed' | 'failed';
+
+// Progress of a migrate_embeddings run
+export interface MigrationStatus {
+  collection: string;
+  state: MigrationState;
+  from: string; // "provider/model" the chunks were embedded with
+  to: string;
+  migrated: number;
+  total: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  url: string;
+  collection: string; // Collection the URL is indexed into
+  status: QueueItemStatus;
+  attempts: number;
+  lastError?: string;
+  source: string; // Tool that queued the item, e.g. "extract_urls"
+  addedAt: string;
+  updatedAt: string;
+  nextAttemptAt?: string; // Set while a failed item waits for its retry
+  ignoreRobots?: boolean; // Queued with ignore_robots, so robots.txt is not consulted when indexing
+  metadata?: SourceMetadata; // Labels stored on the chunks when the item is indexed
+}
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Where a background job got to, saved so a restarted server can continue it
+export interface JobCheckpoint {
+  progress: number; // The job's progress when the state was saved
+  state: unknown; // Up to the tool, e.g. a crawl's frontier or the files already indexed
+}
+
+// A tool call run in the background with `background: true`
+export interface Job {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>; // Arguments of the call, used again when the job is resumed
+  status: JobStatus;
+  progress: number; // In the tool's unit: URLs, pages or files
+  total?: number; // Unknown for crawls
+  message?: string; // Latest progress message
+  result?: unknown; // The tool's JSON output once the job has finished
+  error?: string;
+  cancelRequested?: boolean;
+  checkpoint?: JobCheckpoint; // Kept while the job runs, never returned by the job tools
+  resumed: number; // Times the job was continued after the server stopped
+  createdAt: string;
+  startedAt: string; // When the current run started
+  updatedAt: string;
+  finishedAt?: string;
+}
+
 export interface DocumentPayload extends DocumentChunk {
   _type: 'DocumentChunk';
   [key: string]: unknown;
@@ -40,6 +147,264 @@ export interface McpToolResponse {
   isError?: boolean;
 }
 
+// How a tool responds: a summary for people, or one of the objects below as JSON
+export type OutputFormat = 'text' | 'json';
+
+// Failed tool calls with output_format "json"
+export interface ErrorOutput {
+  error: string;
+}
+
+// A URL or file that could not be fetched or indexed
+export interface SourceFailure {
+  source: string;
+  error: string;
+}
+
+// URLs handed to the queue
+export interface QueueOutcome {
+  added: number;
+  alreadyQueued: number;
+}
+
+// add_documentation
+export interface IndexOutput {
+  collection: string;
+  sources: IndexResult[];
+  cancelled: boolean; // Stopped before indexing every URL
+}
+
+// add_openapi
+export interface ApiIndexResult extends IndexResult {
+  title: string;
+  specVersion: string; // e.g. "3.0.3", or "2.0" for Swagger
+  operations: number;
+}
+
+export interface ApiIndexOutput {
+  collection: string;
+  sources: ApiIndexResult[];
+}
+
+// crawl_documentation, one per seed URL
+export interface CrawlSummary {
+  seed: string;
+  version?: string;
+  scope: string; // Host and path prefix the crawl stayed within
+  maxDepth: number;
+  pages: string[];
+  blocked: string[]; // Disallowed by robots.txt
+  unvisited: number; // Discovered but left out by max_pages or cancellation
+  cancelled: boolean;
+  failures: SourceFailure[];
+  queued?: QueueOutcome; // action "queue"
+  indexed?: ChunkCounts; // action "index"
+}
+
+export interface CrawlOutput {
+  collection: string;
+  action: 'queue' | 'index';
+  crawls: CrawlSummary[];
+}
+
+// What stopped add_sitemap early: max_urls matching URLs, after filtering, or the sitemap file
+// limit, with the entries of the sitemaps left unread never filtered
+export type SitemapLimit = 'max_urls' | 'max_sitemaps';
+
+// add_sitemap
+export interface SitemapOutput {
+  collection: string;
+  sitemaps: string[];
+  sitemapsRead: number;
+  urls: number; // Entries read, before filtering
+  matched: number; // URLs passing include/exclude and robots.txt
+  blocked: number;
+  truncated: boolean;
+  truncatedBy?: SitemapLimit;
+  failures: SourceFailure[];
+  queued?: QueueOutcome;
+}
+
+// extract_urls
+export interface ExtractUrlsOutput {
+  url: string;
+  collection: string;
+  urls: string[];
+  blocked: number;
+  queued?: QueueOutcome; // add_to_queue
+}
+
+// add_directory and add_repository
+export interface FileBatchOutput {
+  collection: string;
+  root: string; // Directory, or repository URL and ref
+  files: number;
+  truncated: boolean;
+  unsupported?: number; // add_directory: files in formats that cannot be indexed
+  queued?: QueueOutcome;
+  indexed?: number;
+  chunks?: ChunkCounts;
+  failures: SourceFailure[];
+  cancelled: boolean; // Stopped before indexing every file
+}
+
+// Checkpoint of an add_directory or add_repository job that indexes: the files done and the outcome so far
+export interface FileBatchCheckpoint {
+  done: string[]; // Paths of the files indexed or failed, as the tool reports them
+  chunks: ChunkCounts;
+  failures: SourceFailure[];
+}
+
+// preview_extraction
+export interface PreviewOutput {
+  url: string;
+  title: string;
+  strategy: string;
+  blocks: number;
+  headings: number;
+  codeBlocks: number;
+  tables: number;
+  characters: number;
+  chunks: number;
+  text: string; // Up to max_chars
+  truncated: boolean;
+}
+
+// search_documentation
+export interface SearchResult {
+  id: string | number; // Qdrant point ID, unique within the collection
+  collection: string;
+  score: number;
+  url: string;
+  link: string; // url with the page or line anchor
+  title: string;
+  headingPath?: string;
+  text: string;
+  version?: string;
+  product?: string;
+  tags?: string[];
+  page?: number;
+  line?: number;
+}
+
+export interface SearchOutput {
+  query: string;
+  results: SearchResult[];
+  note?: string; // Reranking outcome
+}
+
+// list_sources
+export interface SourceSummary {
+  url: string;
+  title: string;
+  chunks: number;
+  indexedAt: string; // Most recent chunk timestamp
+  version?: string;
+  product?: string;
+  tags?: string[];
+}
+
+export interface ProductVersions {
+  product?: string;
+  versions: string[]; // Newest first
+  latest?: string; // Version searches default to
+}
+
+export interface SourceListOutput {
+  collection: string;
+  versions: ProductVersions[];
+  sources: SourceSummary[];
+}
+
+// tag_source and untag_source
+export interface LabelledSource extends SourceMetadata {
+  url: string;
+}
+
+export interface LabelUpdateOutput {
+  collection: string;
+  updated: LabelledSource[]; // With the labels they have now
+  missing: string[]; // Not indexed in the collection
+}
+
+// remove_documentation
+export interface RemoveOutput {
+  collection: string;
+  removed: string[];
+}
+
+// list_queue
+export interface QueueListOutput {
+  counts: Record<QueueItemStatus, number>;
+  items: QueueItem[];
+}
+
+// run_queue
+export interface QueueRunOutput {
+  processed: number;
+  retried: number;
+  failed: SourceFailure[];
+  chunks: ChunkCounts;
+  cancelled: boolean; // Stopped early; unprocessed items stay queued
+}
+
+// retry_failed
+export interface RetryOutput {
+  requeued: number;
+}
+
+// clear_queue
+export interface ClearQueueOutput {
+  removed: number;
+}
+
+// create_collection and delete_collection
+export interface CollectionOutput {
+  collection: string;
+  status: 'created' | 'deleted';
+}
+
+// list_collections
+export interface CollectionSummary {
+  name: string;
+  default: boolean;
+  chunks: number;
+  model?: string; // "provider/model" the chunks were embedded with
+  vectorSize?: number;
+  keywordSearch: boolean;
+  searchSettings: CollectionSearchSettings;
+  migration?: MigrationStatus;
+}
+
+export interface CollectionListOutput {
+  embeddingModel: string; // Model the server is configured with
+  collections: CollectionSummary[];
+}
+
+// configure_collection
+export interface SearchSettingsOutput {
+  collection: string;
+  settings: CollectionSearchSettings;
+  updated: boolean;
+}
+
+// migrate_embeddings
+export interface MigrationOutput {
+  alreadyRunning: boolean;
+  migration: MigrationStatus;
+}
+
+// get_job_status, cancel_job, and tools started with background: true
+export interface JobOutput {
+  job: Job;
+}
+
+// list_jobs
+export interface JobListOutput {
+  counts: Record<JobStatus, number>;
+  jobs: Job[];
+}
+
 // Added types for Qdrant collection info check
 export interface QdrantVectorParams {
   size: number;
@@ -48,6 +413,7 @@ export interface QdrantVectorParams {
 
 export interface QdrantCollectionParams {
   vectors: QdrantVectorParams;
+  sparse_vectors?: Record<string, unknown>;
 }
 
 export interface QdrantCollectionConfig {
@@ -56,4 +422,5 @@ export interface QdrantCollectionConfig {
 
 export interface QdrantCollectionInfo {
   config: QdrantCollectionConfig;
+  points_count?: number | null;
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import type { CheerioAPI } from 'cheerio';
+
+// Links to these are never documentation pages a browser can render
+const NON_PAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|css|js|mjs|map|zip|tar|gz|tgz|bz2|7z|exe|dmg|deb|rpm|woff2?|ttf|eot|mp3|mp4|webm|avi|mov)$/i;
+
+export interface NormalizeOptions {
+  keepQuery?: boolean; // Query strings are dropped unless they select different content
+}
+
+/**
+ * Canonical form used to detect duplicate URLs: lowercase host, no default
+ * port, no fragment, no query string (by default) and no trailing slash
+ * except on the root path.
+ */
+export function normalizeUrl(input: string | URL, options: NormalizeOptions = {}): string {
+  const url = new URL(input.toString());
+  url.hash = '';
+  if (!options.keepQuery) {
+    url.search = '';
+  } else {
+    url.searchParams.sort();
+  }
+  url.hostname = url.hostname.toLowerCase();
+  if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+    url.port = '';
+  }
+  url.pathname = url.pathname.replace(/\/{2,}/g, '/');
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+  return url.href;
+}
+
+export function isLikelyPage(url: URL): boolean {
+  return (url.protocol === 'http:' || url.protocol === 'https:') && !NON_PAGE_EXTENSIONS.test(url.pathname);
+}
+
+// Absolute http(s) URLs of every <a href> on the page
+export function extractLinks($: CheerioAPI, baseUrl: string): URL[] {
+  const links: URL[] = [];
+  $('a[href]').each((_, element) => {
+    const href = $(element).attr('href');
+    if (!href || href.startsWith('javascript:') || href.startsWith('mailto:')) {
+      return;
+    }
+    try {
+      const url = new URL(href, baseUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        links.push(url);
+      }
+    } catch {
+      // Ignore invalid URLs
+    }
+  });
+  return links;
+}
+
+// `*` and `?` stay within a path segment, `**` spans segments and `**/` also matches no directory at all
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*' && glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+const REGEX_PATTERN_PREFIX = 're:';
+
+/**
+ * Compiles a URL filter. `re:<expression>` is a regular expression tested
+ * against the full URL. Anything else is a glob (`*` within a path segment,
+ * `**` across segments) matched against the full URL when it contains `://`,
+ * otherwise against the path, so `/docs/guide` stays a plain path pattern.
+ */
+export function compileUrlPattern(pattern: string): (url: URL) => boolean {
+  if (pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern.slice(REGEX_PATTERN_PREFIX.length));
+    } catch (error) {
+      throw new Error(`"${pattern}" is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+    }
+    return url => regex.test(url.href);
+  }
+  const regex = globToRegExp(pattern);
+  return pattern.includes('://')
+    ? url => regex.test(url.href)
+    : url => regex.test(url.pathname);
+}
+
+// True when the URL matches any include pattern (or none are given) and no exclude pattern
+export function createUrlFilter(include: string[] = [], exclude: string[] = []): (url: URL) => boolean {
+  const includes = include.map(compileUrlPattern);
+  const excludes = exclude.map(compileUrlPattern);
+  return url =>
+    (includes.length === 0 || includes.some(matches => matches(url))) &&
+    !excludes.some(matches => matches(url));
+}
@@ -0,0 +1,89 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+export const VERSION_PLACEHOLDER = '{version}';
+export const LATEST_VERSION = 'latest';
+export const ALL_VERSIONS = '*';
+const MAX_VERSIONS = 20;
+
+// Names sites use for the newest release; preferred over comparing numbers
+const LATEST_ALIASES = ['latest', 'stable', 'current'];
+
+interface ParsedVersion {
+  numbers: number[];
+  prerelease: boolean; // e.g. 3.0.0-beta.1 or 2.1rc1
+}
+
+function parseVersion(version: string): ParsedVersion | undefined {
+  const match = /^v?(\d+(?:\.\d+)*)(.*)$/i.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    numbers: match[1].split('.').map(Number),
+    prerelease: /^[-.+]?(alpha|beta|rc|pre|preview|dev|canary|next)/i.test(match[2]),
+  };
+}
+
+/**
+ * Orders version labels such as "2", "v2.10", "3.0.0-beta" and "3.0".
+ * Labels that are not numbered sort before numbered ones, alphabetically.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  if (!pa || !pb) {
+    return pa ? 1 : pb ? -1 : a.localeCompare(b);
+  }
+  for (let i = 0; i < Math.max(pa.numbers.length, pb.numbers.length); i++) {
+    const diff = (pa.numbers[i] ?? 0) - (pb.numbers[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  if (pa.prerelease !== pb.prerelease) {
+    return pa.prerelease ? -1 : 1;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * The version searches use by default: one named like "latest" or "stable",
+ * otherwise the highest numbered release, preferring final releases over
+ * pre-releases. Undefined when no label is numbered (e.g. only "main" and
+ * "next"), as there is no telling which is newer.
+ */
+export function latestVersion(versions: string[]): string | undefined {
+  const alias = versions.find(version => LATEST_ALIASES.includes(version.toLowerCase()));
+  if (alias) {
+    return alias;
+  }
+  const numbered = versions.filter(version => parseVersion(version));
+  const releases = numbered.filter(version => !parseVersion(version)!.prerelease);
+  const candidates = releases.length > 0 ? releases : numbered;
+  return candidates.sort(compareVersions).pop();
+}
+
+/**
+ * Expands a URL containing {version} into one URL per version, for indexing
+ * the same documentation pages of several releases, e.g.
+ * https://example.com/docs/{version}/intro with versions ["2.x", "3.x"].
+ */
+export function expandVersionedUrl(url: string, versions: unknown): { url: string; version?: string }[] {
+  if (!url.includes(VERSION_PLACEHOLDER)) {
+    if (versions !== undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `versions can only be used with a URL containing ${VERSION_PLACEHOLDER}`);
+    }
+    return [{ url }];
+  }
+  if (!Array.isArray(versions) || versions.length === 0 || versions.length > MAX_VERSIONS ||
+      !versions.every(version => typeof version === 'string' && /^[\w.+-]+$/.test(version))) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `A URL containing ${VERSION_PLACEHOLDER} needs versions: an array of 1-${MAX_VERSIONS} version labels (letters, digits, ".", "_", "+" or "-")`
+    );
+  }
+  return Array.from(new Set(versions as string[])).map(version => ({
+    url: url.split(VERSION_PLACEHOLDER).join(version),
+    version,
+  }));
+}